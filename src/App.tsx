@@ -8,21 +8,25 @@ import BookingFinishedPage from "./pages/BookingFinishedPage";
 import MyOrdersPage from "./pages/MyOrdersPage";
 import MyBookingDetailsPage from "./pages/MyBookingDetailsPage";
 import BrowsePage from "./pages/BrowsePage";
+import CartProvider from "./context/CartProvider";
 
 function App() {
   return (
     <BrowserRouter>
-      <Routes>
-        <Route path="/" element={<BrowsePage />} />
-        <Route path="/cosmetic/:slug" element={<DetailsPage />} />
-        <Route path="/category/:slug" element={<CategoryPage />} />
-        <Route path="/cart" element={<MyCartPage />} />
-        <Route path="/booking" element={<BookingPage />} />
-        <Route path="/payment" element={<PaymentPage />} />
-        <Route path="/booking-finished" element={<BookingFinishedPage />} />
-        <Route path="/check-booking" element={<MyOrdersPage />} />
-        <Route path="/my-booking" element={<MyBookingDetailsPage />} />
-      </Routes>
+      <CartProvider>
+        <Routes>
+          <Route path="/" element={<BrowsePage />} />
+          <Route path="/cosmetic/:slug" element={<DetailsPage />} />
+          <Route path="/category/:slug" element={<CategoryPage />} />
+          <Route path="/cart" element={<MyCartPage />} />
+          <Route path="/booking" element={<BookingPage />} />
+          <Route path="/payment" element={<PaymentPage />} />
+          <Route path="/booking-finished" element={<BookingFinishedPage />} />
+          <Route path="/check-booking" element={<MyOrdersPage />} />
+          <Route path="/my-booking" element={<MyBookingDetailsPage />} />
+          <Route path="/my-booking/:trxId" element={<MyBookingDetailsPage />} />
+        </Routes>
+      </CartProvider>
     </BrowserRouter>
   );
 }
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { SavedAddress } from "../types/type";
+
+interface AddressBookSectionProps {
+  addresses: SavedAddress[];
+  activeAddress: SavedAddress | null;
+  error: string | null;
+  onUse: (address: SavedAddress) => void;
+  onSave: (label: string, asNew: boolean) => void;
+  onRemove: (address: SavedAddress) => void;
+  onSetDefault: (address: SavedAddress) => void;
+}
+
+// Editing works through the booking form itself: using an address fills the
+// form, and saving writes the form back to that address or to a new one.
+export default function AddressBookSection({
+  addresses,
+  activeAddress,
+  error,
+  onUse,
+  onSave,
+  onRemove,
+  onSetDefault,
+}: AddressBookSectionProps) {
+  const [label, setLabel] = useState(activeAddress?.label ?? "");
+
+  return (
+    <section id="AddressBook">
+      <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
+        <div className="flex items-center gap-[10px]">
+          <img
+            src="/assets/images/icons/apartment.svg"
+            alt="icon"
+            className="size-[38px] shrink-0"
+          />
+          <div className="flex flex-col gap-1">
+            <h3 className="font-semibold text-[#030504]">Address Book</h3>
+            <p className="text-sm leading-[21px] text-[#43484C]">
+              Pilih alamat tersimpan untuk mengisi form
+            </p>
+          </div>
+        </div>
+        {addresses.map((address) => {
+          const isActive = address.id === activeAddress?.id;
+          return (
+            <div key={address.id} className="flex flex-col gap-[10px]">
+              <div className="box h-[1px] w-full" />
+              <button
+                type="button"
+                onClick={() => onUse(address)}
+                className="flex items-center justify-between gap-4"
+              >
+                <div className="flex flex-col items-start gap-1">
+                  <div className="flex items-center gap-2">
+                    <strong className="font-semibold">{address.label}</strong>
+                    {address.is_default && (
+                      <span className="rounded-full bg-cosmetics-purple px-2 py-1 text-xs font-semibold leading-[18px] text-white">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm leading-[21px] text-cosmetics-grey">
+                    {address.details.name} · {address.details.city}
+                  </p>
+                </div>
+                <p
+                  className={`shrink-0 text-sm font-semibold leading-[21px] ${isActive ? "text-cosmetics-purple" : "text-cosmetics-grey"}`}
+                >
+                  {isActive ? "Editing" : "Use"}
+                </p>
+              </button>
+              <div className="flex items-center gap-4">
+                {!address.is_default && (
+                  <button
+                    type="button"
+                    onClick={() => onSetDefault(address)}
+                    className="text-sm font-semibold leading-[21px] text-cosmetics-purple"
+                  >
+                    Set as default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemove(address)}
+                  className="text-sm font-semibold leading-[21px] text-[#E70011]"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        <div className="box h-[1px] w-full" />
+        <label className="flex flex-col gap-[6px]">
+          <h4 className="font-semibold text-[#030504]">Address Label</h4>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className="rounded-full bg-[#F6F6F8] px-5 py-[14px] font-semibold text-[#030504] placeholder:font-normal placeholder:text-[#ACACB9] focus:outline-none"
+            placeholder="Home, Office..."
+          />
+        </label>
+        {error && (
+          <p className="text-sm leading-[21px] text-[#E70011]">{error}</p>
+        )}
+        <div className="flex gap-[10px]">
+          {activeAddress && (
+            <button
+              type="button"
+              onClick={() => onSave(label, false)}
+              className="flex w-full justify-center rounded-full bg-[#0C0422] py-[14px] font-semibold text-white"
+            >
+              Update {activeAddress.label}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => onSave(label, true)}
+            className="flex w-full justify-center rounded-full bg-[#F6F6F8] py-[14px] font-semibold"
+          >
+            Save as new address
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
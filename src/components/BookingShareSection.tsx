@@ -0,0 +1,95 @@
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { isCancelledError } from "../services/retry";
+
+interface BookingShareSectionProps {
+  bookingTrxId: string;
+}
+
+// The link carries only the trx id; whoever opens it still has to confirm
+// the booking email before the order is shown.
+const bookingDeepLink = (bookingTrxId: string) =>
+  `${window.location.origin}/my-booking/${encodeURIComponent(bookingTrxId)}`;
+
+export default function BookingShareSection({
+  bookingTrxId,
+}: BookingShareSectionProps) {
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const link = bookingDeepLink(bookingTrxId);
+  const canShare = typeof navigator.share === "function";
+
+  useEffect(() => {
+    if (!feedback) {
+      return;
+    }
+    const timeout = window.setTimeout(() => setFeedback(null), 3000);
+    return () => window.clearTimeout(timeout);
+  }, [feedback]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(bookingTrxId);
+      setFeedback("Booking TRX ID copied");
+    } catch (error) {
+      console.error("Error copying booking trx id", error);
+      setFeedback("Gagal menyalin, silahkan salin secara manual.");
+    }
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({
+        title: "Shayna Beauty Order",
+        text: `Booking TRX ID: ${bookingTrxId}`,
+        url: link,
+      });
+    } catch (error) {
+      if (!isCancelledError(error)) {
+        console.error("Error sharing booking", error);
+        setFeedback("Gagal membagikan pesanan, silahkan coba lagi.");
+      }
+    }
+  };
+
+  return (
+    <section id="BookingShare" className="relative px-5">
+      <div className="flex w-full flex-col items-center gap-5 rounded-3xl bg-white px-[14px] py-5">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-center font-semibold">Scan to View Order</h2>
+          <p className="text-center text-sm leading-[21px] text-cosmetics-grey">
+            Tunjukkan kode ini ke staff toko untuk melihat pesanan anda
+          </p>
+        </div>
+        <QRCodeSVG
+          value={link}
+          size={180}
+          marginSize={2}
+          title={`Booking ${bookingTrxId}`}
+        />
+        <div className="flex w-full gap-[10px]">
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex w-full justify-center rounded-full bg-[#F6F6F8] py-[14px] font-semibold"
+          >
+            Copy TRX ID
+          </button>
+          {canShare && (
+            <button
+              type="button"
+              onClick={handleShare}
+              className="flex w-full justify-center rounded-full bg-[#0C0422] py-[14px] font-semibold text-white"
+            >
+              Share
+            </button>
+          )}
+        </div>
+        {feedback && (
+          <p className="text-center text-sm leading-[21px] text-cosmetics-grey">
+            {feedback}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,65 @@
+import { TimelineStep, formatStatusTime } from "../utils/bookingStatus";
+
+interface BookingTimelineProps {
+  steps: TimelineStep[];
+}
+
+const dotColor: Record<TimelineStep["state"], string> = {
+  done: "bg-[#360CAC]",
+  current: "bg-[#360CAC]",
+  failed: "bg-[#FF9D2A]",
+  upcoming: "bg-[#E0E0EC]",
+};
+
+export default function BookingTimeline({ steps }: BookingTimelineProps) {
+  return (
+    <section id="ProgressBar" className="relative flex flex-col gap-5 px-5">
+      {steps.map((step, index) => {
+        const next = steps[index + 1];
+        return (
+          <div key={step.status} className="relative flex gap-5">
+            <div className="relative z-10 flex w-4 shrink-0 justify-center">
+              {next && (
+                <div
+                  className={`timeline-connector absolute top-1/2 w-1 rounded-full ${
+                    next.state === "upcoming" ? "box2" : "bg-[#360CAC]"
+                  }`}
+                />
+              )}
+              <div
+                className={`absolute top-1/2 size-4 -translate-y-1/2 rounded-full ${dotColor[step.state]}`}
+              />
+            </div>
+            <div className="flex w-full items-center gap-[10px] rounded-3xl bg-white p-5">
+              <img
+                src={step.iconSrc}
+                alt="icon"
+                className="size-[38px] shrink-0"
+              />
+              <div className="flex flex-col gap-1">
+                <h3 className="font-semibold">{step.title}</h3>
+                <p
+                  className={`text-sm leading-[21px] ${
+                    step.state === "failed"
+                      ? "text-[#E70011]"
+                      : "text-cosmetics-grey"
+                  }`}
+                >
+                  {step.description}
+                </p>
+                {step.note && (
+                  <p className="text-sm leading-[21px]">{step.note}</p>
+                )}
+                {step.timestamp && (
+                  <p className="text-xs leading-[18px] text-cosmetics-grey">
+                    {formatStatusTime(step.timestamp)}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </section>
+  );
+}
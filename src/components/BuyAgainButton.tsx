@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { TransactionDetails } from "../types/type";
+import useCart from "../hooks/useCart";
+import { prepareReorder } from "../services/reorder";
+
+interface BuyAgainButtonProps {
+  transactionDetails: TransactionDetails[];
+}
+
+export default function BuyAgainButton({
+  transactionDetails,
+}: BuyAgainButtonProps) {
+  const { mergeItems } = useCart();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBuyAgain = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { items, changes } = await prepareReorder(transactionDetails);
+      if (items.length === 0) {
+        setError("Produk dari pesanan ini sudah tidak tersedia.");
+        return;
+      }
+      mergeItems(items);
+      navigate("/cart", { state: { reorderChanges: changes } });
+    } catch (error) {
+      console.error("Error preparing reorder", error);
+      setError("Gagal memuat produk, silahkan coba lagi.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <button
+        type="button"
+        onClick={handleBuyAgain}
+        disabled={loading}
+        className="flex w-full justify-center rounded-full bg-cosmetics-gradient-pink-white py-[14px] font-semibold text-white transition-all duration-300 hover:shadow-[0px_6px_22px_0px_#FF4D9E82]"
+      >
+        {loading ? "Checking products..." : "Buy Again"}
+      </button>
+      {error && (
+        <p className="text-sm leading-[21px] text-[#E70011]">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { BookingDetails } from "../types/type";
+import { cancelBookingSchema } from "../types/validationBooking";
+import {
+  cancellationReasons,
+  OTHER_CANCELLATION_REASON,
+} from "../data/cancellationReasons";
+import { cancelBooking } from "../services/endpoints";
+import { describeSubmissionError } from "../services/apiErrors";
+import { canCancelBooking } from "../utils/bookingStatus";
+
+interface CancelBookingSectionProps {
+  booking: BookingDetails;
+  email: string;
+  onCancelled: (booking: BookingDetails) => void;
+}
+
+export default function CancelBookingSection({
+  booking,
+  email,
+  onCancelled,
+}: CancelBookingSectionProps) {
+  const [formData, setFormData] = useState({ reason: "", note: "" });
+  const [formErrors, setFormErrors] = useState<z.ZodIssue[]>([]);
+  const [confirming, setConfirming] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) {
+      return;
+    }
+    if (confirming && !dialog.open) {
+      dialog.showModal();
+    } else if (!confirming && dialog.open) {
+      dialog.close();
+    }
+  }, [confirming]);
+
+  if (booking.status === "cancelled") {
+    return null;
+  }
+
+  if (!canCancelBooking(booking.status)) {
+    return (
+      <section id="CancelBooking" className="px-5">
+        <div className="flex flex-col gap-2 rounded-3xl bg-white px-5 py-5">
+          <h2 className="font-semibold">Cancel Order</h2>
+          <p className="text-sm leading-[21px] text-cosmetics-grey">
+            Pesanan sudah dalam pengiriman sehingga tidak bisa dibatalkan lagi.
+            Jika ada kendala dengan produk yang diterima, silahkan hubungi
+            customer service kami.
+          </p>
+        </div>
+      </section>
+    );
+  }
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = cancelBookingSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormErrors(validation.error.issues);
+      return;
+    }
+    setFormErrors([]);
+    setSubmitError(null);
+    setConfirming(true);
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      const cancelled = await cancelBooking({
+        booking_trx_id: booking.booking_trx_id,
+        email,
+        ...cancelBookingSchema.parse(formData),
+      });
+      setConfirming(false);
+      onCancelled(cancelled);
+    } catch (error) {
+      console.error("Error cancelling booking", error);
+      setSubmitError(describeSubmissionError(error).message);
+      setConfirming(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const reasonError = formErrors.find((error) =>
+    error.path.includes("reason")
+  )?.message;
+  const noteError = formErrors.find((error) =>
+    error.path.includes("note")
+  )?.message;
+
+  return (
+    <section id="CancelBooking" className="px-5">
+      <form
+        onSubmit={handleRequest}
+        className="flex flex-col gap-5 rounded-3xl bg-white px-5 py-[30px]"
+      >
+        <div className="flex flex-col gap-1">
+          <h2 className="font-semibold">Cancel Order</h2>
+          <p className="text-sm leading-[21px] text-cosmetics-grey">
+            Pesanan bisa dibatalkan sebelum dikirim
+          </p>
+        </div>
+        <div className="box h-[1px] w-full" />
+        <div className="flex flex-col gap-[10px]">
+          {cancellationReasons.map((reason) => (
+            <label key={reason.id} className="flex items-center gap-[10px]">
+              <input
+                type="radio"
+                name="reason"
+                value={reason.id}
+                checked={formData.reason === reason.id}
+                onChange={handleChange}
+              />
+              <p className="text-sm leading-[21px]">{reason.label}</p>
+            </label>
+          ))}
+          {reasonError && (
+            <p className="text-sm leading-[21px] text-[#E70011]">
+              {reasonError}
+            </p>
+          )}
+        </div>
+        {formData.reason === OTHER_CANCELLATION_REASON && (
+          <label className="flex flex-col gap-[6px]">
+            <h4 className="font-semibold text-[#030504]">Note</h4>
+            <textarea
+              name="note"
+              value={formData.note}
+              onChange={handleChange}
+              rows={3}
+              className="resize-none rounded-3xl bg-[#F6F6F8] px-5 py-[14px] font-semibold text-[#030504] placeholder:font-normal placeholder:text-[#ACACB9] focus:outline-none"
+              placeholder="Ceritakan alasan pembatalan"
+            />
+            {noteError && (
+              <p className="text-sm leading-[21px] text-[#E70011]">
+                {noteError}
+              </p>
+            )}
+          </label>
+        )}
+        {submitError && (
+          <p className="text-sm leading-[21px] text-[#E70011]">{submitError}</p>
+        )}
+        <button
+          type="submit"
+          className="flex w-full justify-center rounded-full bg-[#0C0422] py-[14px] font-semibold text-white transition-all duration-300"
+        >
+          Cancel Order
+        </button>
+      </form>
+      <dialog
+        ref={dialogRef}
+        onClose={() => setConfirming(false)}
+        className="max-w-[640px] rounded-3xl bg-white p-5"
+      >
+        <div className="flex flex-col gap-5">
+          <div className="flex flex-col gap-1">
+            <h3 className="font-semibold">Batalkan pesanan ini?</h3>
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              Pesanan {booking.booking_trx_id} akan dibatalkan dan tidak bisa
+              dilanjutkan lagi.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={submitting}
+            className="flex w-full justify-center rounded-full bg-cosmetics-gradient-pink-white py-[14px] font-semibold text-white transition-all duration-300"
+          >
+            {submitting ? "Cancelling..." : "Yes, cancel my order"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirming(false)}
+            disabled={submitting}
+            className="flex w-full justify-center rounded-full bg-[#F6F6F8] py-[14px] font-semibold"
+          >
+            Keep my order
+          </button>
+        </div>
+      </dialog>
+    </section>
+  );
+}
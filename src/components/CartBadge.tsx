@@ -0,0 +1,15 @@
+import useCart from "../hooks/useCart";
+
+export default function CartBadge() {
+  const { totalQuantity } = useCart();
+
+  if (totalQuantity === 0) {
+    return null;
+  }
+
+  return (
+    <span className="absolute right-0 top-0 z-10 flex size-5 -translate-y-1/2 translate-x-1/2 items-center justify-center rounded-full bg-cosmetics-purple text-xs font-bold leading-[18px] text-white">
+      {totalQuantity > 9 ? "9+" : totalQuantity}
+    </span>
+  );
+}
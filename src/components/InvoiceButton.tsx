@@ -0,0 +1,23 @@
+import { BookingDetails } from "../types/type";
+import { printInvoice } from "../utils/invoice";
+
+interface InvoiceButtonProps {
+  booking: BookingDetails;
+}
+
+export default function InvoiceButton({ booking }: InvoiceButtonProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <button
+        type="button"
+        onClick={() => printInvoice(booking)}
+        className="flex w-full justify-center rounded-full bg-white py-[14px] font-semibold text-[#030504] transition-all duration-300"
+      >
+        Print / Download Invoice
+      </button>
+      <p className="text-center text-sm leading-[21px] text-cosmetics-grey">
+        Pilih "Save as PDF" pada jendela print untuk menyimpan invoice
+      </p>
+    </div>
+  );
+}
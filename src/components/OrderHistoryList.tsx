@@ -0,0 +1,78 @@
+import { Link } from "react-router-dom";
+import { OrderHistoryEntry } from "../types/type";
+import { formatCurrency } from "../utils/formatCurrency";
+
+interface OrderHistoryListProps {
+  orders: OrderHistoryEntry[];
+  onOpen: (order: OrderHistoryEntry) => void;
+  onRemove: (order: OrderHistoryEntry) => void;
+}
+
+const MAX_THUMBNAILS = 3;
+
+export default function OrderHistoryList({
+  orders,
+  onOpen,
+  onRemove,
+}: OrderHistoryListProps) {
+  const BASE_URL = import.meta.env.VITE_REACT_API_STORAGE_URL;
+
+  return (
+    <section id="OrderHistory" className="relative">
+      <div className="flex w-full flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
+        <div className="flex flex-col gap-1">
+          <h2 className="font-semibold text-[#0C0422]">Recent Orders</h2>
+          <p className="text-sm leading-[21px] text-[#8C8582]">
+            Tersimpan di perangkat ini
+          </p>
+        </div>
+        {orders.map((order) => (
+          <div key={order.booking_trx_id} className="flex flex-col gap-[10px]">
+            <div className="box h-[1px] w-full" />
+            <div className="flex items-center justify-between gap-4">
+              <Link
+                to={`/my-booking/${encodeURIComponent(order.booking_trx_id)}`}
+                onClick={() => onOpen(order)}
+                className="flex items-center gap-4"
+              >
+                <div className="flex shrink-0 items-center gap-2">
+                  {order.thumbnails
+                    .slice(0, MAX_THUMBNAILS)
+                    .map((thumbnail) => (
+                      <img
+                        key={thumbnail}
+                        src={`${BASE_URL}/${thumbnail}`}
+                        alt="image"
+                        className="size-[38px] shrink-0 object-contain"
+                      />
+                    ))}
+                </div>
+                <div className="flex flex-col gap-1">
+                  <strong className="font-semibold">
+                    {order.booking_trx_id}
+                  </strong>
+                  <p className="text-sm leading-[21px] text-cosmetics-grey">
+                    {new Date(order.created_at).toLocaleDateString("id-ID", {
+                      day: "numeric",
+                      month: "short",
+                      year: "numeric",
+                    })}{" "}
+                    · {order.quantity} Items ·{" "}
+                    {formatCurrency(order.total_amount)}
+                  </p>
+                </div>
+              </Link>
+              <button
+                type="button"
+                onClick={() => onRemove(order)}
+                className="shrink-0 text-sm font-semibold leading-[21px] text-[#E70011]"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
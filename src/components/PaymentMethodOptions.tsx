@@ -0,0 +1,88 @@
+import { PaymentMethod } from "../types/type";
+
+interface PaymentMethodOptionsProps {
+  methods: PaymentMethod[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export default function PaymentMethodOptions({
+  methods,
+  selectedId,
+  onSelect,
+}: PaymentMethodOptionsProps) {
+  return (
+    <>
+      {methods.map((method) => {
+        const isSelected = method.id === selectedId;
+        return (
+          <div key={method.id} className="flex flex-col gap-5">
+            <label className="option-focus-ring relative flex items-center justify-between gap-4 rounded-2xl">
+              <input
+                type="radio"
+                name="payment_method"
+                value={method.id}
+                checked={isSelected}
+                disabled={!method.enabled}
+                onChange={() => onSelect(method.id)}
+                className="sr-only"
+              />
+              <div className="flex items-center gap-4">
+                <img
+                  src={method.logo}
+                  alt="image"
+                  className="h-[60px] w-[80px] shrink-0"
+                />
+                <div>
+                  <h4 className="font-semibold">{method.name}</h4>
+                  {method.account_number ? (
+                    <>
+                      <strong className="text-sm leading-[21px]">
+                        {method.account_number}
+                      </strong>
+                      <p className="text-sm leading-[21px] text-cosmetics-grey">
+                        {method.account_name}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm leading-[21px] text-cosmetics-grey">
+                      {method.status_label}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {!method.enabled ? (
+                <span className="shrink-0 rounded-full bg-[#F6F6F8] px-[14px] py-2">
+                  <p className="text-sm font-semibold leading-[21px] text-[#ACACB9]">
+                    Inactive
+                  </p>
+                </span>
+              ) : isSelected ? (
+                <span className="shrink-0 rounded-full bg-cosmetics-purple px-[14px] py-2">
+                  <p className="text-sm font-semibold leading-[21px] text-white">
+                    Selected
+                  </p>
+                </span>
+              ) : (
+                <span className="shrink-0 rounded-full bg-[#F6F6F8] px-[14px] py-2">
+                  <p className="text-sm font-semibold leading-[21px] text-cosmetics-purple">
+                    Choose
+                  </p>
+                </span>
+              )}
+            </label>
+            {isSelected && method.instructions.length > 0 && (
+              <div className="flex flex-col gap-2 rounded-2xl bg-[#F6F6F8] p-[10px]">
+                {method.instructions.map((step, index) => (
+                  <p key={index} className="text-sm">
+                    {index + 1}. {step}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import { BookingDetails } from "../types/type";
+import { proofSchema } from "../types/validationBooking";
+import { updateBookingProof } from "../services/endpoints";
+import { describeSubmissionError } from "../services/apiErrors";
+import useProofFile from "../hooks/useProofFile";
+import ProofUploadField from "./ProofUploadField";
+
+interface ProofUpdateSectionProps {
+  booking: BookingDetails;
+  email: string;
+  onUpdated: (booking: BookingDetails) => void;
+}
+
+export default function ProofUpdateSection({
+  booking,
+  email,
+  onUpdated,
+}: ProofUpdateSectionProps) {
+  const proofFile = useProofFile();
+  const [submitting, setSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const isReplacing = Boolean(booking.proof);
+  const isRejected = booking.status === "rejected";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (submitting) {
+      return;
+    }
+
+    if (!proofFile.proof) {
+      setError("Proof of payment is required");
+      return;
+    }
+    const validation = proofSchema.safeParse({ proof: proofFile.proof });
+    if (!validation.success) {
+      setError(validation.error.issues[0]?.message ?? null);
+      return;
+    }
+
+    setSubmitting(true);
+    setUploadProgress(0);
+    setError(null);
+    setSuccess(false);
+    try {
+      const updated = await updateBookingProof(
+        {
+          booking_trx_id: booking.booking_trx_id,
+          email,
+          proof: validation.data.proof,
+        },
+        { onUploadProgress: setUploadProgress }
+      );
+      proofFile.reset();
+      setSuccess(true);
+      onUpdated(updated);
+    } catch (error) {
+      console.error("Error updating payment proof", error);
+      const { message, fieldErrors } = describeSubmissionError(error);
+      setError(fieldErrors[0]?.message ?? message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <section id="ProofUpdate" className="px-5">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-col gap-5 rounded-3xl bg-white px-5 py-[30px]"
+      >
+        <div className="flex items-center gap-[10px]">
+          <img
+            src="/assets/images/icons/banktf.svg"
+            alt="icon"
+            className="size-[38px] shrink-0"
+          />
+          <div className="flex flex-col gap-1">
+            <h2 className="font-semibold">
+              {isReplacing
+                ? "Replace Proof of Payment"
+                : "Upload Proof of Payment"}
+            </h2>
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              {isRejected
+                ? "Bukti sebelumnya ditolak, upload bukti transfer yang baru"
+                : isReplacing
+                  ? "Ganti bukti transfer jika ada yang salah"
+                  : "Sudah bayar? Upload bukti transfer di sini"}
+            </p>
+          </div>
+        </div>
+        <div className="box h-[1px] w-full" />
+        <ProofUploadField
+          proofFile={proofFile}
+          error={
+            proofFile.issues.find((issue) => issue.path.includes("proof"))
+              ?.message
+          }
+        />
+        {submitting && (
+          <div className="h-2 w-full rounded-full bg-[#EDEDF5]">
+            <div
+              className="h-2 rounded-full bg-cosmetics-purple transition-all duration-300"
+              style={{ width: `${Math.round(uploadProgress * 100)}%` }}
+            />
+          </div>
+        )}
+        {error && (
+          <p className="text-sm leading-[21px] text-[#E70011]">{error}</p>
+        )}
+        {success && (
+          <p className="text-sm leading-[21px] text-cosmetics-grey">
+            Bukti pembayaran terkirim, kami akan segera memverifikasinya.
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || proofFile.processing}
+          className="flex w-full justify-center rounded-full bg-cosmetics-gradient-pink-white py-[14px] font-semibold text-white transition-all duration-300 hover:shadow-[0px_6px_22px_0px_#FF4D9E82]"
+        >
+          {submitting ? "Uploading..." : "Send proof of payment"}
+        </button>
+      </form>
+    </section>
+  );
+}
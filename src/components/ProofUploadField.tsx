@@ -0,0 +1,90 @@
+import { ProofFileState } from "../hooks/useProofFile";
+import {
+  ACCEPTED_PROOF_TYPES,
+  formatFileSize,
+  isAcceptedProofType,
+  isPdf,
+} from "../utils/proofFile";
+
+interface ProofUploadFieldProps {
+  proofFile: ProofFileState;
+  error?: string;
+}
+
+export default function ProofUploadField({
+  proofFile,
+  error,
+}: ProofUploadFieldProps) {
+  const { proof, fileName, previewUrl, processing, handleChange } = proofFile;
+
+  return (
+    <>
+      <label className="flex flex-col gap-[6px]">
+        <h4 className="font-semibold text-[#030504]">Proof of Payment</h4>
+        <div className="group relative flex h-[54px] items-center justify-center rounded-full bg-[#E0E0EC] transition-all duration-300 focus-within:bg-cosmetics-gradient-purple-pink">
+          <div className="h-[calc(100%_-_2px)] w-[calc(100%_-_2px)] rounded-full bg-[#F6F6F8] transition-all duration-300 focus-within:h-[calc(100%_-_4px)] focus-within:w-[calc(100%_-_4px)]">
+            <p
+              id="upload"
+              className="absolute left-[57px] top-1/2 -translate-y-1/2 py-[15px] text-[#ACACB9]"
+            >
+              {fileName ? fileName : "Add an attachment"}
+            </p>
+            <input
+              type="file"
+              name="proof"
+              accept={ACCEPTED_PROOF_TYPES.join(",")}
+              onChange={handleChange}
+              id="file-upload"
+              className="absolute top-1/2 w-full -translate-y-1/2 rounded-full py-[15px] pl-[57px] pr-[13px] font-semibold text-[#030504] opacity-0 file:hidden focus:outline-none"
+            />
+            <div className="absolute left-[14px] top-1/2 flex w-[35px] -translate-y-1/2 justify-between">
+              <img
+                src="/assets/images/icons/list.svg"
+                alt="icon"
+                className="size-[24px] shrink-0"
+              />
+              <span className="h-[26px] w-px bg-[#E0E0EC] transition-all duration-300 group-focus-within:bg-cosmetics-gradient-purple-pink" />
+            </div>
+          </div>
+        </div>
+        {error && (
+          <p className="text-sm leading-[21px] text-[#E70011]">{error}</p>
+        )}
+      </label>
+      {processing && (
+        <p className="text-sm leading-[21px] text-cosmetics-grey">
+          Preparing your attachment...
+        </p>
+      )}
+      {proof &&
+        previewUrl &&
+        isAcceptedProofType(proof.type) &&
+        !processing && (
+          <div className="flex flex-col gap-2">
+            <div className="overflow-hidden rounded-2xl bg-[#F6F6F8]">
+              {isPdf(proof) ? (
+                <object
+                  data={previewUrl}
+                  type="application/pdf"
+                  className="h-[276px] w-full"
+                >
+                  <p className="p-[10px] text-sm">
+                    PDF preview is not available in this browser.
+                  </p>
+                </object>
+              ) : (
+                <img
+                  src={previewUrl}
+                  alt="Proof of payment preview"
+                  className="h-[190px] w-full object-contain"
+                />
+              )}
+            </div>
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              {proof.name} ({formatFileSize(proof.size)})
+            </p>
+          </div>
+        )}
+    </>
+  );
+}
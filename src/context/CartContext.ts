@@ -0,0 +1,20 @@
+import { createContext } from "react";
+import { CartItem } from "../types/type";
+import { CosmeticLookup } from "../services/cosmeticLoader";
+
+export const MAX_ITEM_QUANTITY = 10;
+
+export interface CartContextValue {
+  cart: CartItem[];
+  totalQuantity: number;
+  hasItem: (cosmeticId: number) => boolean;
+  addItem: (item: CosmeticLookup, quantity?: number) => boolean;
+  mergeItems: (items: CartItem[]) => void;
+  removeItem: (slug: string) => void;
+  removeItems: (items: CosmeticLookup[]) => void;
+  increaseQuantity: (slug: string) => void;
+  decreaseQuantity: (slug: string) => void;
+  clearCart: () => void;
+}
+
+export const CartContext = createContext<CartContextValue | null>(null);
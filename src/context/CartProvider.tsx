@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { CartItem } from "../types/type";
+import { CART_KEY, readCart, saveCart } from "../services/cartStorage";
+import { CosmeticLookup } from "../services/cosmeticLoader";
+import { CartContext, MAX_ITEM_QUANTITY } from "./CartContext";
+
+const clampQuantity = (quantity: number) =>
+  Math.min(Math.max(quantity, 1), MAX_ITEM_QUANTITY);
+
+export default function CartProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [cart, setCart] = useState<CartItem[]>(readCart);
+  // The latest cart, so several updates in one event build on each other
+  // without reading it back inside a state updater.
+  const cartRef = useRef(cart);
+
+  // Every change is written through to storage; changes made in another tab
+  // arrive through the `storage` event and are only read back.
+  const updateCart = useCallback(
+    (updater: (prevCart: CartItem[]) => CartItem[]) => {
+      const updatedCart = updater(cartRef.current);
+      cartRef.current = updatedCart;
+      setCart(updatedCart);
+      saveCart(updatedCart);
+    },
+    []
+  );
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CART_KEY || event.key === null) {
+        const storedCart = readCart();
+        cartRef.current = storedCart;
+        setCart(storedCart);
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const hasItem = useCallback(
+    (cosmeticId: number) =>
+      cart.some((item) => item.cosmetic_id === cosmeticId),
+    [cart]
+  );
+
+  const addItem = useCallback(
+    (item: CosmeticLookup, quantity = 1) => {
+      if (hasItem(item.cosmetic_id)) {
+        return false;
+      }
+      updateCart((prevCart) => [
+        ...prevCart,
+        {
+          cosmetic_id: item.cosmetic_id,
+          slug: item.slug,
+          quantity: clampQuantity(quantity),
+        },
+      ]);
+      return true;
+    },
+    [hasItem, updateCart]
+  );
+
+  // Adds quantities onto items already in the cart instead of skipping them.
+  const mergeItems = useCallback(
+    (items: CartItem[]) => {
+      updateCart((prevCart) =>
+        items.reduce((merged, item) => {
+          const existing = merged.find(
+            (cartItem) => cartItem.cosmetic_id === item.cosmetic_id
+          );
+          if (!existing) {
+            return [
+              ...merged,
+              { ...item, quantity: clampQuantity(item.quantity) },
+            ];
+          }
+          return merged.map((cartItem) =>
+            cartItem === existing
+              ? {
+                  ...cartItem,
+                  quantity: clampQuantity(cartItem.quantity + item.quantity),
+                }
+              : cartItem
+          );
+        }, prevCart)
+      );
+    },
+    [updateCart]
+  );
+
+  const removeItem = useCallback(
+    (slug: string) => {
+      updateCart((prevCart) => prevCart.filter((item) => item.slug !== slug));
+    },
+    [updateCart]
+  );
+
+  const removeItems = useCallback(
+    (items: CosmeticLookup[]) => {
+      updateCart((prevCart) =>
+        prevCart.filter(
+          (item) =>
+            !items.some((removed) => removed.cosmetic_id === item.cosmetic_id)
+        )
+      );
+    },
+    [updateCart]
+  );
+
+  const changeQuantity = useCallback(
+    (slug: string, delta: number) => {
+      updateCart((prevCart) =>
+        prevCart.map((item) =>
+          item.slug === slug
+            ? { ...item, quantity: clampQuantity(item.quantity + delta) }
+            : item
+        )
+      );
+    },
+    [updateCart]
+  );
+
+  const clearCart = useCallback(() => {
+    updateCart(() => []);
+  }, [updateCart]);
+
+  const value = useMemo(
+    () => ({
+      cart,
+      totalQuantity: cart.reduce((acc, item) => acc + item.quantity, 0),
+      hasItem,
+      addItem,
+      mergeItems,
+      removeItem,
+      removeItems,
+      increaseQuantity: (slug: string) => changeQuantity(slug, 1),
+      decreaseQuantity: (slug: string) => changeQuantity(slug, -1),
+      clearCart,
+    }),
+    [
+      cart,
+      hasItem,
+      addItem,
+      mergeItems,
+      removeItem,
+      removeItems,
+      changeQuantity,
+      clearCart,
+    ]
+  );
+
+  return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
+}
@@ -0,0 +1,15 @@
+export interface CancellationReason {
+  id: string;
+  label: string;
+}
+
+export const OTHER_CANCELLATION_REASON = "other";
+
+export const cancellationReasons: CancellationReason[] = [
+  { id: "changed_mind", label: "Berubah pikiran" },
+  { id: "wrong_items", label: "Salah memilih produk atau jumlah" },
+  { id: "wrong_address", label: "Alamat pengiriman salah" },
+  { id: "found_cheaper", label: "Menemukan harga lebih murah" },
+  { id: "payment_issue", label: "Kendala pembayaran" },
+  { id: OTHER_CANCELLATION_REASON, label: "Alasan lainnya" },
+];
@@ -0,0 +1,49 @@
+import { DiscountRule } from "../types/type";
+
+// Used when the API does not know a code, or cannot be reached.
+export const discountRules: DiscountRule[] = [
+  {
+    code: "SHAYNA10",
+    type: "percentage",
+    value: 10,
+    min_spend: 0,
+    max_discount: 50000,
+    brand_slugs: [],
+    category_slugs: [],
+    starts_at: null,
+    expires_at: null,
+  },
+  {
+    code: "HEMAT25K",
+    type: "fixed",
+    value: 25000,
+    min_spend: 150000,
+    max_discount: null,
+    brand_slugs: [],
+    category_slugs: [],
+    starts_at: null,
+    expires_at: null,
+  },
+  {
+    code: "SKINCARE15",
+    type: "percentage",
+    value: 15,
+    min_spend: 100000,
+    max_discount: 75000,
+    brand_slugs: [],
+    category_slugs: ["skincare"],
+    starts_at: null,
+    expires_at: null,
+  },
+  {
+    code: "GIRLSDAY",
+    type: "percentage",
+    value: 20,
+    min_spend: 0,
+    max_discount: 100000,
+    brand_slugs: [],
+    category_slugs: [],
+    starts_at: "2025-04-21T00:00:00+07:00",
+    expires_at: "2025-04-22T00:00:00+07:00",
+  },
+];
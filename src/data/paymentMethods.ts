@@ -0,0 +1,119 @@
+import { PaymentMethod, PaymentMethodGroup } from "../types/type";
+
+export interface PaymentMethodGroupInfo {
+  id: PaymentMethodGroup;
+  title: string;
+  subTitle: string;
+  iconSrc: string;
+  // Shown instead of the method list when nothing in the group is enabled.
+  unavailableMessage: string;
+}
+
+export const paymentMethodGroups: PaymentMethodGroupInfo[] = [
+  {
+    id: "e_wallet",
+    title: "Trusted E-Wallets",
+    subTitle: "Choose lorem dolor active",
+    iconSrc: "/assets/images/icons/wallet.svg",
+    unavailableMessage:
+      "Layanan e-wallet belum si amet tersedia karena sedang proses dolor.",
+  },
+  {
+    id: "cod",
+    title: "Cash on Delivery",
+    subTitle: "Choose lorem dolor active",
+    iconSrc: "/assets/images/icons/cash.svg",
+    unavailableMessage:
+      "Layanan pembayaran ini belum si amet tersedia karena sedang proses dolor.",
+  },
+  {
+    id: "bank_transfer",
+    title: "Bank Transfer",
+    subTitle: "Choose lorem dolor active",
+    iconSrc: "/assets/images/icons/banktf.svg",
+    unavailableMessage:
+      "Transfer bank belum si amet tersedia karena sedang proses dolor.",
+  },
+];
+
+// Flip `enabled` to switch a method on or off; disabled methods stay listed
+// so customers can see what is coming.
+export const paymentMethods: PaymentMethod[] = [
+  {
+    id: "linkaja_pro",
+    group: "e_wallet",
+    name: "LinkAja Pro",
+    logo: "/assets/images/thumbnails/link-aja.png",
+    account_number: null,
+    account_name: null,
+    instructions: [],
+    enabled: false,
+    status_label: "Offline",
+  },
+  {
+    id: "ovo_inter",
+    group: "e_wallet",
+    name: "OVO Inter",
+    logo: "/assets/images/thumbnails/ovo.png",
+    account_number: null,
+    account_name: null,
+    instructions: [],
+    enabled: false,
+    status_label: "Offline",
+  },
+  {
+    id: "link_aja",
+    group: "e_wallet",
+    name: "Link Aja",
+    logo: "/assets/images/thumbnails/gopay.png",
+    account_number: null,
+    account_name: null,
+    instructions: [],
+    enabled: false,
+    status_label: "Offline",
+  },
+  {
+    id: "cod",
+    group: "cod",
+    name: "Cash on Delivery",
+    logo: "/assets/images/icons/cash.svg",
+    account_number: null,
+    account_name: null,
+    instructions: [],
+    enabled: false,
+    status_label: "Offline",
+  },
+  {
+    id: "bca",
+    group: "bank_transfer",
+    name: "Bank Central Asia",
+    logo: "/assets/images/thumbnails/bca.png",
+    account_number: "9893981092",
+    account_name: "PT Shayna Beauty",
+    instructions: [
+      "Buka BCA mobile atau KlikBCA, lalu pilih m-Transfer.",
+      "Transfer grand total ke rekening 9893981092 a.n. PT Shayna Beauty.",
+      "Simpan bukti transfer dan upload di bagian Payment Confirmation.",
+    ],
+    enabled: true,
+    status_label: "Active",
+  },
+  {
+    id: "mandiri",
+    group: "bank_transfer",
+    name: "Bank Mandiri",
+    logo: "/assets/images/thumbnails/mandiri.png",
+    account_number: "193084820912",
+    account_name: "PT Shayna Beauty",
+    instructions: [
+      "Buka Livin' by Mandiri, lalu pilih Transfer ke Rekening Mandiri.",
+      "Transfer grand total ke rekening 193084820912 a.n. PT Shayna Beauty.",
+      "Simpan bukti transfer dan upload di bagian Payment Confirmation.",
+    ],
+    enabled: true,
+    status_label: "Active",
+  },
+];
+
+export const findPaymentMethod = (id: string | null) =>
+  paymentMethods.find((method) => method.id === id) ?? null;
@@ -0,0 +1,115 @@
+import { ShippingPromo, ShippingZone } from "../types/type";
+
+export const DEFAULT_ITEM_WEIGHT_GRAMS = 250;
+
+// Zones are matched on the first two digits of the post code, falling back
+// to the city name when the post code is not recognised.
+export const shippingZones: ShippingZone[] = [
+  {
+    id: "jabodetabek",
+    name: "Jabodetabek",
+    post_code_prefixes: [[10, 17]],
+    cities: [
+      "jakarta",
+      "bogor",
+      "depok",
+      "tangerang",
+      "tangerang selatan",
+      "bekasi",
+    ],
+    base_fee: 10000,
+    per_kg_fee: 5000,
+    free_shipping_min: 250000,
+  },
+  {
+    id: "java",
+    name: "Java",
+    post_code_prefixes: [
+      [18, 19],
+      [40, 69],
+    ],
+    cities: [
+      "bandung",
+      "cirebon",
+      "semarang",
+      "yogyakarta",
+      "solo",
+      "surakarta",
+      "surabaya",
+      "malang",
+      "serang",
+    ],
+    base_fee: 15000,
+    per_kg_fee: 8000,
+    free_shipping_min: 400000,
+  },
+  {
+    id: "sumatra",
+    name: "Sumatra",
+    post_code_prefixes: [[20, 39]],
+    cities: ["medan", "padang", "pekanbaru", "palembang", "bandar lampung"],
+    base_fee: 25000,
+    per_kg_fee: 12000,
+    free_shipping_min: 600000,
+  },
+  {
+    id: "kalimantan",
+    name: "Kalimantan",
+    post_code_prefixes: [[70, 79]],
+    cities: ["pontianak", "banjarmasin", "balikpapan", "samarinda"],
+    base_fee: 30000,
+    per_kg_fee: 15000,
+    free_shipping_min: 600000,
+  },
+  {
+    id: "bali-nusa-tenggara",
+    name: "Bali & Nusa Tenggara",
+    post_code_prefixes: [[80, 87]],
+    cities: ["denpasar", "mataram", "kupang"],
+    base_fee: 25000,
+    per_kg_fee: 12000,
+    free_shipping_min: 600000,
+  },
+  {
+    id: "sulawesi",
+    name: "Sulawesi",
+    post_code_prefixes: [[90, 96]],
+    cities: ["makassar", "manado", "palu", "kendari", "gorontalo"],
+    base_fee: 35000,
+    per_kg_fee: 18000,
+    free_shipping_min: 750000,
+  },
+  {
+    id: "maluku-papua",
+    name: "Maluku & Papua",
+    post_code_prefixes: [[97, 99]],
+    cities: ["ambon", "ternate", "jayapura", "sorong"],
+    base_fee: 50000,
+    per_kg_fee: 25000,
+    free_shipping_min: null,
+  },
+];
+
+// Used when neither the post code nor the city matches a zone, which is
+// usually a typo. Priced like the middle of the range rather than the most
+// remote zone, and the payment page asks the customer to check the address.
+export const fallbackShippingZone: ShippingZone = {
+  id: "standard",
+  name: "Standard",
+  post_code_prefixes: [],
+  cities: [],
+  base_fee: 25000,
+  per_kg_fee: 12000,
+  free_shipping_min: 600000,
+};
+
+export const shippingPromos: ShippingPromo[] = [
+  {
+    name: "Java Hemat",
+    zone_ids: ["java"],
+    fee: 10000,
+    min_order: 200000,
+    starts_at: null,
+    expires_at: null,
+  },
+];
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BookingDetails } from "../types/type";
+import { CheckBookingPayload } from "../services/endpoints";
+import { bookingQuery } from "../services/queries";
+import { queryCache } from "../services/queryCache";
+import { bookingStatusCopy, isBookingActive } from "../utils/bookingStatus";
+
+export interface BookingNotification {
+  id: number;
+  title: string;
+  message: string;
+}
+
+const POLL_INTERVAL = 15 * 1000;
+const MAX_POLL_INTERVAL = 5 * 60 * 1000;
+
+const statusSignature = (booking: BookingDetails | null | undefined) =>
+  booking ? `${booking.status}:${booking.is_paid}` : "none";
+
+const notificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+// Keeps a booking fresh while it can still change. Polls start every 15
+// seconds and back off to 5 minutes while nothing changes; a change, or the
+// tab becoming visible again, resets the interval. Hidden tabs skip polls.
+export default function useBookingUpdates(
+  payload: CheckBookingPayload | null,
+  booking: BookingDetails | null | undefined
+) {
+  const [notification, setNotification] = useState<BookingNotification | null>(
+    null
+  );
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    notificationsSupported() ? Notification.permission : "denied"
+  );
+  const previousRef = useRef<BookingDetails | null>(null);
+
+  const bookingTrxId = payload?.booking_trx_id;
+  const email = payload?.email;
+  const active = booking ? isBookingActive(booking.status) : false;
+
+  useEffect(() => {
+    if (!bookingTrxId || !email || !active) {
+      return;
+    }
+
+    const { key, fetcher } = bookingQuery({
+      booking_trx_id: bookingTrxId,
+      email,
+    });
+    let delay = POLL_INTERVAL;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    // Set while a poll waits on the API, so that showing the tab again does
+    // not start a second polling chain next to it.
+    let inFlight = false;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (!stopped) {
+        timer = setTimeout(poll, delay);
+      }
+    };
+
+    const poll = async () => {
+      if (document.hidden) {
+        schedule();
+        return;
+      }
+      const before = queryCache.getEntry<BookingDetails | null>(key).data;
+      inFlight = true;
+      try {
+        const after = await queryCache.revalidate(key, fetcher);
+        delay =
+          statusSignature(after) === statusSignature(before)
+            ? Math.min(delay * 2, MAX_POLL_INTERVAL)
+            : POLL_INTERVAL;
+      } catch {
+        delay = Math.min(delay * 2, MAX_POLL_INTERVAL);
+      } finally {
+        inFlight = false;
+      }
+      schedule();
+    };
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden && !inFlight) {
+        clearTimeout(timer);
+        delay = POLL_INTERVAL;
+        poll();
+      }
+    };
+
+    schedule();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [bookingTrxId, email, active]);
+
+  useEffect(() => {
+    if (!booking) {
+      return;
+    }
+    const previous = previousRef.current;
+    previousRef.current = booking;
+    if (
+      !previous ||
+      previous.booking_trx_id !== booking.booking_trx_id ||
+      statusSignature(previous) === statusSignature(booking)
+    ) {
+      return;
+    }
+
+    const { title, description } = bookingStatusCopy[booking.status];
+    const message = `${booking.booking_trx_id}: ${description}`;
+    setNotification({ id: Date.now(), title, message });
+    if (notificationsSupported() && Notification.permission === "granted") {
+      try {
+        new Notification(title, { body: message, tag: booking.booking_trx_id });
+      } catch {
+        // Mobile Chrome only allows notifications from a service worker; the
+        // in-app notification above is enough there.
+      }
+    }
+  }, [booking]);
+
+  const dismissNotification = useCallback(() => setNotification(null), []);
+
+  const enableBrowserNotifications = useCallback(async () => {
+    if (notificationsSupported()) {
+      setPermission(await Notification.requestPermission());
+    }
+  }, []);
+
+  return {
+    notification,
+    dismissNotification,
+    isPolling: Boolean(bookingTrxId && email) && active,
+    canEnableBrowserNotifications: permission === "default",
+    enableBrowserNotifications,
+  };
+}
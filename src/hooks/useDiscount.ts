@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { CartLine, DiscountRule } from "../types/type";
+import { evaluateDiscount } from "../utils/discount";
+import { findDiscountRule } from "../services/discountService";
+import {
+  clearDiscountCode,
+  readDiscountCode,
+  saveDiscountCode,
+} from "../services/discountStorage";
+
+export default function useDiscount(lines: CartLine[]) {
+  const [rule, setRule] = useState<DiscountRule | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  // Until the saved code is looked up the amount reads 0, which must not be
+  // mistaken for "no discount".
+  const [restoring, setRestoring] = useState(() => readDiscountCode() !== null);
+
+  // Restore the code applied on an earlier page, e.g. cart -> payment.
+  useEffect(() => {
+    const savedCode = readDiscountCode();
+    if (!savedCode) {
+      return;
+    }
+    findDiscountRule(savedCode)
+      .then((savedRule) => {
+        if (savedRule) {
+          setRule(savedRule);
+        } else {
+          clearDiscountCode();
+        }
+      })
+      .finally(() => setRestoring(false));
+  }, []);
+
+  const apply = useCallback(
+    async (code: string) => {
+      if (code.trim() === "") {
+        setLookupError("Please enter a discount code");
+        return;
+      }
+      setApplying(true);
+      setLookupError(null);
+      try {
+        const foundRule = await findDiscountRule(code);
+        if (!foundRule) {
+          setLookupError("Discount code is not valid, please try again");
+          return;
+        }
+        const evaluation = evaluateDiscount(foundRule, lines);
+        if (!evaluation.ok) {
+          setLookupError(evaluation.error);
+          return;
+        }
+        setRule(foundRule);
+        saveDiscountCode(foundRule.code);
+      } finally {
+        setApplying(false);
+      }
+    },
+    [lines]
+  );
+
+  const remove = useCallback(() => {
+    setRule(null);
+    setLookupError(null);
+    clearDiscountCode();
+  }, []);
+
+  // Re-evaluated on every render so the amount follows cart changes, e.g. a
+  // quantity drop below the minimum spend.
+  const evaluation = rule ? evaluateDiscount(rule, lines) : null;
+
+  return {
+    code: rule?.code ?? null,
+    amount: evaluation?.ok ? evaluation.amount : 0,
+    error:
+      lookupError ?? (evaluation && !evaluation.ok ? evaluation.error : null),
+    applying,
+    restoring,
+    apply,
+    remove,
+  };
+}
@@ -0,0 +1,80 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { z } from "zod";
+import { proofSchema } from "../types/validationBooking";
+import { prepareProofFile } from "../utils/proofFile";
+
+// State for a proof of payment input: the picked file after downscaling, its
+// preview URL and the validation issues for it.
+export default function useProofFile() {
+  const [proof, setProof] = useState<File | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [issues, setIssues] = useState<z.ZodIssue[]>([]);
+  // Downscaling is async, so a file picked earlier can finish after a later
+  // one. Only the latest pick may update the state.
+  const requestRef = useRef(0);
+
+  const previewUrl = useMemo(
+    () => (proof ? URL.createObjectURL(proof) : null),
+    [proof]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+      }
+    };
+  }, [previewUrl]);
+
+  const handleChange = useCallback(
+    async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const request = ++requestRef.current;
+      const file = e.target.files ? e.target.files[0] : null;
+      setFileName(file ? file.name : null);
+      setProof(null);
+      setIssues([]);
+      setProcessing(Boolean(file));
+
+      let prepared: File | null = null;
+      if (file) {
+        prepared = await prepareProofFile(file);
+        if (request !== requestRef.current) {
+          return;
+        }
+        setProcessing(false);
+      }
+      setProof(prepared);
+
+      const validation = proofSchema.safeParse({ proof: prepared });
+      setIssues(prepared && !validation.success ? validation.error.issues : []);
+    },
+    []
+  );
+
+  const reset = useCallback(() => {
+    requestRef.current += 1;
+    setProcessing(false);
+    setProof(null);
+    setFileName(null);
+    setIssues([]);
+  }, []);
+
+  return {
+    proof,
+    fileName,
+    previewUrl,
+    processing,
+    issues,
+    handleChange,
+    reset,
+  };
+}
+
+export type ProofFileState = ReturnType<typeof useProofFile>;
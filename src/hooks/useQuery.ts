@@ -0,0 +1,61 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import { QueryDefinition } from "../services/queries";
+import {
+  DEFAULT_STALE_TIME,
+  hashQueryKey,
+  QueryKey,
+  queryCache,
+} from "../services/queryCache";
+
+interface UseQueryOptions {
+  staleTime?: number;
+  enabled?: boolean;
+}
+
+export default function useQuery<T>(
+  query: QueryDefinition<T>,
+  { staleTime = DEFAULT_STALE_TIME, enabled = true }: UseQueryOptions = {}
+) {
+  // The definition is rebuilt on every render, so the hashed key is what
+  // decides when the hook resubscribes or fetches again.
+  const hash = hashQueryKey(query.key);
+  const key = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+
+  const fetcherRef = useRef(query.fetcher);
+  useEffect(() => {
+    fetcherRef.current = query.fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(key, listener),
+    [key]
+  );
+  const getSnapshot = useCallback(() => queryCache.getEntry<T>(key), [key]);
+  const entry = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    queryCache
+      .fetch(key, () => fetcherRef.current(), { staleTime })
+      .catch(() => undefined);
+  }, [key, enabled, staleTime]);
+
+  // A failed background refresh keeps the cached data on screen, so `error`
+  // is only reported when there is nothing to show. `refreshError` lets a
+  // page say the data it shows could not be updated.
+  const hasData = entry.data !== undefined;
+  return {
+    data: entry.data,
+    error: hasData ? null : entry.error,
+    refreshError: hasData ? entry.error : null,
+    loading: enabled && !hasData && !entry.error,
+  };
+}
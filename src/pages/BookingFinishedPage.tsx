@@ -1,10 +1,39 @@
-import { Link, useLocation } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import {
+  readBookingEmail,
+  rememberBookingEmail,
+} from "../services/bookingAccessStorage";
+import { bookingQuery } from "../services/queries";
+import useQuery from "../hooks/useQuery";
+import InvoiceButton from "../components/InvoiceButton";
+import BookingShareSection from "../components/BookingShareSection";
+import { maskEmail } from "../utils/maskEmail";
 
 export default function BookingFinishedPage() {
   const location = useLocation();
+  const navigate = useNavigate();
   const queryParams = new URLSearchParams(location.search);
   const bookingTrxId = queryParams.get("trx_id");
-  const email = queryParams.get("email");
+  // Older links still carry the email in the query string.
+  const legacyEmail = queryParams.get("email");
+  const [email] = useState(
+    () => legacyEmail ?? (bookingTrxId ? readBookingEmail(bookingTrxId) : null)
+  );
+  const { data: bookingDetails } = useQuery(
+    bookingQuery({ booking_trx_id: bookingTrxId ?? "", email: email ?? "" }),
+    { enabled: Boolean(bookingTrxId && email) }
+  );
+
+  useEffect(() => {
+    if (bookingTrxId && legacyEmail) {
+      rememberBookingEmail(bookingTrxId, legacyEmail);
+      navigate(`/booking-finished?trx_id=${encodeURIComponent(bookingTrxId)}`, {
+        replace: true,
+      });
+    }
+  }, [bookingTrxId, legacyEmail, navigate]);
+
   return (
     <main className="relative mx-auto flex min-h-screen max-w-[640px] flex-col gap-5 bg-[#F6F6F8] pb-[48px]">
       <div id="Background" className="absolute left-0 right-0 top-0">
@@ -118,7 +147,7 @@ export default function BookingFinishedPage() {
             <div>
               <div className="relative flex h-[54px] items-center justify-center rounded-full bg-[#E0E0EC]">
                 <input
-                  defaultValue={email ? email : "undefined"}
+                  defaultValue={email ? maskEmail(email) : "-"}
                   readOnly
                   type="text"
                   name=""
@@ -138,6 +167,7 @@ export default function BookingFinishedPage() {
           </label>
         </div>
       </section>
+      {bookingTrxId && <BookingShareSection bookingTrxId={bookingTrxId} />}
       <section
         id="BookingButton"
         className="mt-[10px] flex flex-col gap-[14px] px-5"
@@ -149,11 +179,16 @@ export default function BookingFinishedPage() {
           Order Again
         </Link>
         <Link
-          to={`/check-booking`}
+          to={
+            bookingTrxId
+              ? `/my-booking/${encodeURIComponent(bookingTrxId)}`
+              : `/check-booking`
+          }
           className="flex w-full justify-center rounded-full bg-[#0C0422] py-[14px] font-semibold text-white transition-all duration-300"
         >
-          Check My Booking
+          {bookingTrxId ? "View My Order" : "Check My Booking"}
         </Link>
+        {bookingDetails && <InvoiceButton booking={bookingDetails} />}
       </section>
     </main>
   );
@@ -1,34 +1,76 @@
 import React, { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { BookingFormData } from "../types/type";
+import { BookingFormData, SavedAddress } from "../types/type";
 import { z } from "zod";
-import { bookingSchema } from "../types/validationBooking";
+import {
+  bookingSchema,
+  savedAddressFormSchema,
+} from "../types/validationBooking";
+import useCart from "../hooks/useCart";
+import {
+  clearBookingData,
+  readBookingData,
+  saveBookingData,
+} from "../services/bookingStorage";
+import {
+  clearAddressBook,
+  findDefaultAddress,
+  readAddressBook,
+  rememberAddress,
+  removeAddress,
+  saveAddress,
+  setDefaultAddress,
+} from "../services/addressBookStorage";
+import {
+  clearOrderHistory,
+  readOrderHistory,
+} from "../services/orderHistoryStorage";
+import { clearBookingEmails } from "../services/bookingAccessStorage";
+import AddressBookSection from "../components/AddressBookSection";
+import { formatPhoneInput } from "../utils/phone";
+
+const emptyFormData: BookingFormData = {
+  name: "",
+  email: "",
+  phone: "",
+  post_code: "",
+  address: "",
+  city: "",
+};
 
 export default function BookingPage() {
-  const [formData, setFormData] = useState<BookingFormData>({
-    name: "",
-    email: "",
-    phone: "",
-    post_code: "",
-    address: "",
-    city: "",
-  });
+  const [formData, setFormData] = useState<BookingFormData>(emptyFormData);
+  const [rememberMe, setRememberMe] = useState(false);
+  const [hasStoredDetails, setHasStoredDetails] = useState(false);
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [activeAddressId, setActiveAddressId] = useState<string | null>(null);
+  const [addressError, setAddressError] = useState<string | null>(null);
 
   const [formErrors, setFormErrors] = useState<z.ZodIssue[]>([]);
   const navigate = useNavigate();
+  const { cart } = useCart();
 
   useEffect(() => {
-    const savedData = localStorage.getItem("bookingData");
-    const cartData = localStorage.getItem("cart");
-
-    if (!cartData || JSON.parse(cartData).length === 0) {
+    if (cart.length === 0) {
       navigate("/");
-      return;
     }
-    if (savedData) {
-      setFormData(JSON.parse(savedData));
+  }, [cart.length, navigate]);
+
+  useEffect(() => {
+    const addressBook = readAddressBook();
+    setAddresses(addressBook);
+    const draft = readBookingData();
+    const defaultAddress = findDefaultAddress(addressBook);
+    if (draft) {
+      setFormData(draft);
+    } else if (defaultAddress) {
+      setFormData(defaultAddress.details);
+      setActiveAddressId(defaultAddress.id);
     }
-  }, [navigate]);
+    setHasStoredDetails(
+      Boolean(draft) || addressBook.length > 0 || readOrderHistory().length > 0
+    );
+  }, []);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -36,7 +78,7 @@ export default function BookingPage() {
     const { name, value } = e.target;
     setFormData((prev) => ({
       ...prev,
-      [name]: value,
+      [name]: name === "phone" ? formatPhoneInput(value) : value,
     }));
   };
 
@@ -48,12 +90,87 @@ export default function BookingPage() {
       setFormErrors(validation.error.issues);
       return;
     }
-    localStorage.setItem("bookingData", JSON.stringify(formData));
+    saveBookingData(validation.data);
+    if (rememberMe) {
+      rememberAddress(validation.data);
+    }
     alert("Booking information saved!");
     navigate("/payment");
     setFormErrors([]);
   };
 
+  const handleForgetDetails = () => {
+    if (
+      !confirm(
+        "Hapus data diri, alamat dan riwayat pesanan yang tersimpan di perangkat ini? Form akan dikosongkan."
+      )
+    ) {
+      return;
+    }
+    clearBookingData();
+    clearAddressBook();
+    // Trx id and email together open the full booking, so they go as well.
+    clearOrderHistory();
+    clearBookingEmails();
+    setFormData(emptyFormData);
+    setFormErrors([]);
+    setAddresses([]);
+    setActiveAddressId(null);
+    setAddressError(null);
+    setHasStoredDetails(false);
+  };
+
+  const activeAddress =
+    addresses.find((address) => address.id === activeAddressId) ?? null;
+
+  const handleUseAddress = (address: SavedAddress) => {
+    setFormData(address.details);
+    setActiveAddressId(address.id);
+    setFormErrors([]);
+    setAddressError(null);
+  };
+
+  const handleSaveAddress = (label: string, asNew: boolean) => {
+    const validation = savedAddressFormSchema.safeParse({
+      label,
+      details: formData,
+    });
+    if (!validation.success) {
+      const { issues } = validation.error;
+      setFormErrors(issues.filter((issue) => issue.path[0] === "details"));
+      setAddressError(
+        issues.find((issue) => issue.path[0] === "label")?.message ??
+          "Lengkapi data di atas sebelum menyimpan alamat"
+      );
+      return;
+    }
+    const saved = saveAddress({
+      id: asNew ? null : activeAddressId,
+      ...validation.data,
+    });
+    setAddresses(readAddressBook());
+    setActiveAddressId(saved.id);
+    setFormErrors([]);
+    setAddressError(null);
+    setHasStoredDetails(true);
+  };
+
+  const handleRemoveAddress = (address: SavedAddress) => {
+    if (!confirm(`Hapus alamat "${address.label}"?`)) {
+      return;
+    }
+    removeAddress(address.id);
+    setAddresses(readAddressBook());
+    if (address.id === activeAddressId) {
+      setActiveAddressId(null);
+    }
+  };
+
+  const handleSetDefaultAddress = (address: SavedAddress) => {
+    setDefaultAddress(address.id);
+    setAddresses(readAddressBook());
+  };
+
   return (
     <main className="mx-auto flex min-h-screen max-w-[640px] flex-col gap-5 bg-[#F6F6F8] pb-[20px]">
       <section id="NavTop">
@@ -137,6 +254,16 @@ export default function BookingPage() {
       </header>
       <div>
         <form onSubmit={handleSubmit} className="flex flex-col gap-5 px-5">
+          <AddressBookSection
+            key={activeAddressId ?? "new"}
+            addresses={addresses}
+            activeAddress={activeAddress}
+            error={addressError}
+            onUse={handleUseAddress}
+            onSave={handleSaveAddress}
+            onRemove={handleRemoveAddress}
+            onSetDefault={handleSetDefaultAddress}
+          />
           <section id="Informations">
             <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
               <div className="flex items-center gap-[10px]">
@@ -186,12 +313,14 @@ export default function BookingPage() {
                 <h4 className="font-semibold text-[#030504]">Phone</h4>
                 <div className="group relative flex h-[54px] items-center justify-center rounded-full bg-[#E0E0EC] transition-all duration-300 focus-within:bg-cosmetics-gradient-purple-pink">
                   <input
-                    type="text"
+                    type="tel"
                     name="phone"
-                    value={formData.phone}
+                    inputMode="tel"
+                    autoComplete="tel"
+                    value={formatPhoneInput(formData.phone)}
                     onChange={handleChange}
                     className="absolute h-[calc(100%_-_2px)] w-[calc(100%_-_2px)] rounded-full bg-[#F6F6F8] pl-[57px] pr-[13px] font-semibold text-[#030504] transition-all duration-300 placeholder:font-normal placeholder:leading-[24px] placeholder:text-[#ACACB9] focus:h-[calc(100%_-_4px)] focus:w-[calc(100%_-_4px)] focus:outline-none"
-                    placeholder="Enter your phone"
+                    placeholder="0812-3456-7890"
                   />
                   <div className="absolute left-[14px] top-1/2 flex w-[35px] -translate-y-1/2 justify-between">
                     <img
@@ -350,6 +479,37 @@ export default function BookingPage() {
               </label>
             </div>
           </section>
+          <section id="SaveDetails">
+            <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
+              <label className="flex items-center gap-[10px]">
+                <input
+                  type="checkbox"
+                  checked={rememberMe}
+                  onChange={(e) => setRememberMe(e.target.checked)}
+                  className="size-5 shrink-0"
+                />
+                <div className="flex flex-col gap-1">
+                  <h4 className="font-semibold text-[#030504]">Remember me</h4>
+                  <p className="text-sm leading-[21px] text-[#43484C]">
+                    Simpan alamat ini di perangkat untuk pesanan berikutnya.
+                    Tanpa ini, data hanya disimpan sementara di tab ini.
+                  </p>
+                </div>
+              </label>
+              {hasStoredDetails && (
+                <>
+                  <div className="box h-[1px] w-full" />
+                  <button
+                    type="button"
+                    onClick={handleForgetDetails}
+                    className="flex w-full justify-center rounded-full bg-[#F6F6F8] py-[14px] font-semibold text-[#E70011]"
+                  >
+                    Forget my details
+                  </button>
+                </>
+              )}
+            </div>
+          </section>
           <button
             type="submit"
             className="mt-[10px] flex w-full items-center justify-between rounded-full bg-cosmetics-gradient-pink-white px-5 py-[14px] transition-all duration-300 hover:shadow-[0px_6px_22px_0px_#FF4D9E82]"
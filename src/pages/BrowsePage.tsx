@@ -1,71 +1,34 @@
-import { useEffect, useState } from "react";
 import { Swiper, SwiperSlide } from "swiper/react";
-import { Category, Cosmetic } from "../types/type";
-import apiClient from "../services/apiServices";
 import { Link } from "react-router-dom";
-
-const fetchCategories = async () => {
-  const response = await apiClient.get("/categories");
-  return response.data.data;
-};
-const fetchPopularCosmetics = async () => {
-  const response = await apiClient.get("/cosmetics?limit=4&is_popular=1");
-  return response.data.data;
-};
-const fetchAllCosmetics = async () => {
-  const response = await apiClient.get("/cosmetics?limit=4");
-  return response.data.data;
-};
+import useQuery from "../hooks/useQuery";
+import CartBadge from "../components/CartBadge";
+import { categoriesQuery, cosmeticsQuery } from "../services/queries";
+import { formatCurrency } from "../utils/formatCurrency";
 
 export default function BrowsePage() {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [popularCosmetics, setPopularCosmetics] = useState<Cosmetic[]>([]);
-  const [allCosmetics, setAllCosmetics] = useState<Cosmetic[]>([]);
-
-  const [loadingCategories, setLoadingCategories] = useState(true);
-  const [loadingPopularCosmetics, setLoadingPopularCosmetics] = useState(true);
-  const [loadingAllCosmetics, setLoadingAllCosmetics] = useState(true);
-
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchCategoriesData = async () => {
-      try {
-        const categoriesData = await fetchCategories();
-        setCategories(categoriesData);
-      } catch {
-        setError("Failed to load categories");
-      } finally {
-        setLoadingCategories(false);
-      }
-    };
+  const {
+    data: categories = [],
+    loading: loadingCategories,
+    error: categoriesError,
+  } = useQuery(categoriesQuery());
+  const {
+    data: popularCosmetics = [],
+    loading: loadingPopularCosmetics,
+    error: popularCosmeticsError,
+  } = useQuery(cosmeticsQuery({ limit: 4, is_popular: true }));
+  const {
+    data: allCosmetics = [],
+    loading: loadingAllCosmetics,
+    error: allCosmeticsError,
+  } = useQuery(cosmeticsQuery({ limit: 4 }));
 
-    const fetchPopularCosmeticsData = async () => {
-      try {
-        const popularCosmeticsData = await fetchPopularCosmetics();
-        setPopularCosmetics(popularCosmeticsData);
-      } catch {
-        setError("Failed to load services");
-      } finally {
-        setLoadingPopularCosmetics(false);
-      }
-    };
-
-    const fetchCosmeticsData = async () => {
-      try {
-        const cosmeticsData = await fetchAllCosmetics();
-        setAllCosmetics(cosmeticsData);
-      } catch {
-        setError("Failed to load cosmetics");
-      } finally {
-        setLoadingAllCosmetics(false);
-      }
-    };
-
-    fetchCategoriesData();
-    fetchCosmeticsData();
-    fetchPopularCosmeticsData();
-  }, []);
+  const error = categoriesError
+    ? "Failed to load categories"
+    : popularCosmeticsError
+      ? "Failed to load services"
+      : allCosmeticsError
+        ? "Failed to load cosmetics"
+        : null;
 
   if (loadingCategories && loadingAllCosmetics && loadingPopularCosmetics) {
     return <p>Loading categories and cosmetics...</p>;
@@ -75,15 +38,6 @@ export default function BrowsePage() {
     return <p>Error loading data: {error}</p>;
   }
 
-  // Format Currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   const BASE_URL = import.meta.env.VITE_REACT_API_STORAGE_URL;
 
   return (
@@ -145,7 +99,7 @@ export default function BrowsePage() {
             </a>
             <Link
               to={`/cart`}
-              className="flex size-[44px] items-center justify-center rounded-full bg-cosmetics-greylight p-px transition-all duration-300 hover:bg-cosmetics-gradient-purple-pink hover:p-[2px]"
+              className="relative flex size-[44px] items-center justify-center rounded-full bg-cosmetics-greylight p-px transition-all duration-300 hover:bg-cosmetics-gradient-purple-pink hover:p-[2px]"
             >
               <div className="flex h-full w-full shrink-0 items-center justify-center rounded-full bg-white">
                 <img
@@ -154,6 +108,7 @@ export default function BrowsePage() {
                   className="size-5 shrink-0"
                 />
               </div>
+              <CartBadge />
             </Link>
           </div>
         </div>
@@ -279,7 +234,7 @@ export default function BrowsePage() {
                           </div>
                           <div className="des flex flex-col gap-1">
                             <h4 className="text-xs leading-[18px] text-cosmetics-purple">
-                              {cosmetic.brand.name.toUpperCase()}
+                              {cosmetic.brand?.name.toUpperCase()}
                             </h4>
                             <h3 className="line-clamp-2 h-[48px] w-full font-semibold">
                               {cosmetic.name}
@@ -317,7 +272,7 @@ export default function BrowsePage() {
                     </div>
                     <div className="flex w-full flex-col gap-[2px]">
                       <h4 className="text-xs leading-[18px] text-cosmetics-purple">
-                        {cosmetic.brand.name.toUpperCase()}
+                        {cosmetic.brand?.name.toUpperCase()}
                       </h4>
                       <h3 className="line-clamp-2 h-[48px] w-full font-semibold">
                         {cosmetic.name}
@@ -1,47 +1,28 @@
-import { useEffect, useState } from "react";
 import { Link, useParams } from "react-router-dom";
-import { Category } from "../types/type";
-import apiClient from "../services/apiServices";
+import useQuery from "../hooks/useQuery";
+import CartBadge from "../components/CartBadge";
+import { categoryQuery } from "../services/queries";
+import { formatCurrency } from "../utils/formatCurrency";
 
 export default function CategoryPage() {
   const { slug } = useParams<{ slug: string }>();
 
-  const [category, setCategory] = useState<Category | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    apiClient
-      .get(`/category/${slug}`)
-      .then((response) => {
-        setCategory(response.data.data);
-        setLoading(false);
-      })
-      .catch((error) => {
-        setError(error);
-        setLoading(false);
-      });
-  }, [slug]);
+  const {
+    data: category,
+    loading,
+    error,
+  } = useQuery(categoryQuery(slug ?? ""), { enabled: !!slug });
 
   if (loading) {
     return <p>Loading...</p>;
   }
   if (error) {
-    return <p>Error Loading: {error}</p>;
+    return <p>Error Loading: {error.message}</p>;
   }
   if (!category) {
     return <p>Category not Found</p>;
   }
 
-  // Format Currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   const BASE_URL = import.meta.env.VITE_REACT_API_STORAGE_URL;
 
   return (
@@ -67,12 +48,13 @@ export default function CategoryPage() {
               </p>
             </div>
             <Link to={`/cart`}>
-              <div className="flex size-[44px] shrink-0 items-center justify-center rounded-full border border-cosmetics-greylight">
+              <div className="relative flex size-[44px] shrink-0 items-center justify-center rounded-full border border-cosmetics-greylight">
                 <img
                   src="/assets/images/icons/cart.svg"
                   alt="icon"
                   className="size-5 shrink-0"
                 />
+                <CartBadge />
               </div>
             </Link>
           </div>
@@ -173,7 +155,7 @@ export default function CategoryPage() {
                     </div>
                     <div className="flex w-full flex-col gap-[2px]">
                       <h4 className="text-xs leading-[18px] text-cosmetics-purple">
-                        {cosmetic.brand.name.toUpperCase()}
+                        {cosmetic.brand?.name.toUpperCase()}
                       </h4>
                       <h3 className="line-clamp-2 h-[48px] w-full font-semibold">
                         {cosmetic.name}
@@ -1,64 +1,39 @@
 import { useEffect, useState } from "react";
 import { Link, useParams } from "react-router-dom";
-import { CartItem, Cosmetic } from "../types/type";
-import apiClient from "../services/apiServices";
-import { BRAND, set } from "zod";
 import { Swiper, SwiperSlide } from "swiper/react";
+import useQuery from "../hooks/useQuery";
+import useCart from "../hooks/useCart";
+import CartBadge from "../components/CartBadge";
+import { cosmeticQuery } from "../services/queries";
+import { formatCurrency } from "../utils/formatCurrency";
 
 export default function DetailsPage() {
   const { slug } = useParams<{ slug: string }>();
-  const [cosmetic, setCosmetic] = useState<Cosmetic | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    data: cosmetic,
+    loading,
+    error,
+  } = useQuery(cosmeticQuery(slug ?? ""), { enabled: !!slug });
 
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const { addItem } = useCart();
   const [isAdding, setIsAdding] = useState(false);
 
   const [mainImage, setMainImage] = useState<string>("");
 
   useEffect(() => {
-    const savedCart = localStorage.getItem("cart");
-    if (savedCart) {
-      setCart(JSON.parse(savedCart));
-    }
-  }, []);
-
-  useEffect(() => {
-    apiClient
-      .get(`/cosmetic/${slug}`)
-      .then((response) => {
-        setCosmetic(response.data.data);
-        setMainImage(response.data.data.thumbnail);
-        setLoading(false);
-      })
-      .catch((error) => {
-        setError(error);
-        setLoading(false);
-      });
-  }, [slug]);
+    setMainImage(cosmetic?.thumbnail ?? "");
+  }, [cosmetic?.thumbnail]);
 
   const handleAddToCart = () => {
     if (cosmetic) {
       setIsAdding(true);
-      const itemExists = cart.find((item) => item.cosmetic_id === cosmetic.id);
-      if (itemExists) {
-        alert("Produk sudah tersedia di dalam Cart");
-        setIsAdding(false);
-      } else {
-        const newCartItem: CartItem = {
-          cosmetic_id: cosmetic.id,
-          slug: cosmetic.slug,
-          quantity: 1,
-        };
-
-        const updatedCart = [...cart, newCartItem];
-        setCart(updatedCart);
-
-        localStorage.setItem("cart", JSON.stringify(updatedCart));
-
+      const added = addItem({ cosmetic_id: cosmetic.id, slug: cosmetic.slug });
+      if (added) {
         alert("Produk berhasil ditambahkan ke dalam Cart");
-        setIsAdding(false);
+      } else {
+        alert("Produk sudah tersedia di dalam Cart");
       }
+      setIsAdding(false);
     }
   };
 
@@ -66,22 +41,13 @@ export default function DetailsPage() {
     return <p>Loading...</p>;
   }
   if (error) {
-    return <p>Error Loading:{error}</p>;
+    return <p>Error Loading:{error.message}</p>;
   }
   if (!cosmetic) {
     return <p>Cosmetic not Found</p>;
   }
   const BASE_URL = import.meta.env.VITE_REACT_API_STORAGE_URL;
 
-  // Format Currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
   return (
     <main className="mx-auto flex min-h-screen max-w-[640px] flex-col gap-5 bg-[#F6F6F8]">
       <section id="NavTop">
@@ -105,12 +71,13 @@ export default function DetailsPage() {
               </p>
             </div>
             <Link to={`/cart`}>
-              <div className="flex size-[44px] shrink-0 items-center justify-center rounded-full border border-cosmetics-greylight">
+              <div className="relative flex size-[44px] shrink-0 items-center justify-center rounded-full border border-cosmetics-greylight">
                 <img
                   src="/assets/images/icons/cart.svg"
                   alt="icon"
                   className="size-5 shrink-0"
                 />
+                <CartBadge />
               </div>
             </Link>
           </div>
@@ -208,7 +175,7 @@ export default function DetailsPage() {
           <div className="flex items-center justify-between px-5">
             <div className="flex flex-col gap-1">
               <h4 className="font-semibold text-cosmetics-purple">
-                {cosmetic.brand.name.toUpperCase()}
+                {cosmetic.brand?.name.toUpperCase()}
               </h4>
               <h1 className="text-[20px] font-bold leading-[30px]">
                 {cosmetic.name}
@@ -234,7 +201,7 @@ export default function DetailsPage() {
               />
               <div>
                 <h5 className="text-sm font-semibold leading-[21px] text-[#030504]">
-                  {cosmetic.category.name}
+                  {cosmetic.category?.name}
                 </h5>
                 <p className="text-sm leading-[21px] text-[#43484C]">
                   Category
@@ -1,35 +1,140 @@
-import { Link, useLocation, useNavigate } from "react-router-dom";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
 import { BookingDetails } from "../types/type";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { formatCurrency } from "../utils/formatCurrency";
+import { formatTaxRate, getBookingTotals } from "../utils/pricing";
+import useQuery from "../hooks/useQuery";
+import useBookingUpdates from "../hooks/useBookingUpdates";
+import BookingTimeline from "../components/BookingTimeline";
+import {
+  buildStatusTimeline,
+  canUpdateProof,
+  isBookingPaid,
+} from "../utils/bookingStatus";
+import ProofUpdateSection from "../components/ProofUpdateSection";
+import BuyAgainButton from "../components/BuyAgainButton";
+import CancelBookingSection from "../components/CancelBookingSection";
+import InvoiceButton from "../components/InvoiceButton";
+import { queryCache } from "../services/queryCache";
+import { bookingQuery, queryKeys } from "../services/queries";
+import {
+  forgetBookingEmail,
+  readBookingEmail,
+  rememberBookingEmail,
+} from "../services/bookingAccessStorage";
+import { viewBookingSchema } from "../types/validationBooking";
 
 interface LocationState {
   bookingDetails: BookingDetails | null;
   notFound: boolean;
 }
 
+const emailPromptSchema = viewBookingSchema.pick({ email: true });
+
 export default function MyBookingDetailsPage() {
   const location = useLocation();
   const navigate = useNavigate();
+  const { trxId } = useParams<{ trxId: string }>();
+
+  const [email, setEmail] = useState(() =>
+    trxId ? readBookingEmail(trxId) : null
+  );
+  const [emailInput, setEmailInput] = useState("");
+  const [formErrors, setFormErrors] = useState<z.ZodIssue[]>([]);
+
+  const {
+    data,
+    error,
+    refreshError,
+    loading: loadingBooking,
+  } = useQuery(
+    bookingQuery({ booking_trx_id: trxId ?? "", email: email ?? "" }),
+    { enabled: Boolean(trxId && email) }
+  );
+
+  // `/my-booking` without a trx id still accepts the result handed over by
+  // the check booking form.
+  const state = (location.state as LocationState) || {};
+  const bookingDetails = trxId ? (data ?? null) : state.bookingDetails;
+  const notFound = trxId ? data === null : state.notFound;
 
-  const { bookingDetails, notFound } = (location.state as LocationState) || {};
   useEffect(() => {
-    if (!bookingDetails && !notFound) {
+    if (!trxId && !bookingDetails && !notFound) {
       navigate("/");
     }
-  }, [bookingDetails, notFound, navigate]);
+  }, [trxId, bookingDetails, notFound, navigate]);
+
+  const {
+    notification,
+    dismissNotification,
+    isPolling,
+    canEnableBrowserNotifications,
+    enableBrowserNotifications,
+  } = useBookingUpdates(
+    trxId && email ? { booking_trx_id: trxId, email } : null,
+    trxId ? data : null
+  );
+
+  useEffect(() => {
+    if (trxId && email && data) {
+      rememberBookingEmail(trxId, email);
+    }
+  }, [trxId, email, data]);
+
+  // A deep link with the wrong email asks again instead of leaving the
+  // customer stuck on "not found" for this trx id.
+  useEffect(() => {
+    if (trxId && email && data === null) {
+      forgetBookingEmail(trxId);
+      setEmailInput(email);
+      setEmail(null);
+      setFormErrors([
+        {
+          code: z.ZodIssueCode.custom,
+          path: ["email"],
+          message: "No booking with this TRX ID was found for that email",
+        },
+      ]);
+    }
+  }, [trxId, email, data]);
 
-  if (!bookingDetails && !notFound) {
+  if (!trxId && !bookingDetails && !notFound) {
     return null;
   }
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
+  const handleEmailSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validation = emailPromptSchema.safeParse({ email: emailInput });
+    if (!validation.success) {
+      setFormErrors(validation.error.issues);
+      return;
+    }
+    setFormErrors([]);
+    setEmail(validation.data.email);
+  };
+
+  const handleBookingUpdated = (updated: BookingDetails) => {
+    if (trxId && email) {
+      queryCache.setData(
+        queryKeys.booking({ booking_trx_id: trxId, email }),
+        updated
+      );
+    }
   };
+
+  const needsEmail = Boolean(trxId) && !email;
+  if (!needsEmail && loadingBooking) {
+    return <p>Loading data...</p>;
+  }
+  // Once a booking is loaded, a failed refresh keeps it on screen with a
+  // notice instead of replacing the page with the error.
+  if (!needsEmail && error && !data) {
+    return <p>Error Loading data:{error.message}</p>;
+  }
+
   const BASE_URL = import.meta.env.VITE_REACT_API_STORAGE_URL;
+  const pricing = bookingDetails ? getBookingTotals(bookingDetails) : null;
 
   return (
     <main className="mx-auto flex flex-col min-h-screen max-w-[640px] bg-[#F6F6F8]">
@@ -65,7 +170,112 @@ export default function MyBookingDetailsPage() {
           </div>
         </div>
       </section>
-      {notFound ? (
+      {notification && (
+        <section id="StatusNotification" className="mt-5 px-5">
+          <div className="flex items-center justify-between gap-4 rounded-3xl bg-white p-5">
+            <div className="flex items-center gap-[10px]">
+              <img
+                src="/assets/images/icons/information.svg"
+                alt="icon"
+                className="size-[38px] shrink-0"
+              />
+              <div className="flex flex-col gap-1">
+                <h3 className="font-semibold">{notification.title}</h3>
+                <p className="text-sm leading-[21px] text-cosmetics-grey">
+                  {notification.message}
+                </p>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={dismissNotification}
+              className="shrink-0 text-sm font-semibold leading-[21px] text-cosmetics-purple"
+            >
+              Tutup
+            </button>
+          </div>
+        </section>
+      )}
+      {refreshError && bookingDetails && (
+        <section id="RefreshError" className="mt-5 px-5">
+          <div className="flex items-center gap-[10px] rounded-3xl bg-white px-5 py-[14px]">
+            <img
+              src="/assets/images/icons/information.svg"
+              alt="icon"
+              className="size-[38px] shrink-0"
+            />
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              Couldn’t refresh this booking. Showing the last loaded details.
+            </p>
+          </div>
+        </section>
+      )}
+      {isPolling && canEnableBrowserNotifications && (
+        <section id="NotificationOptIn" className="mt-5 px-5">
+          <div className="flex items-center justify-between gap-4 rounded-3xl bg-white px-5 py-[14px]">
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              Dapatkan notifikasi saat status pesanan berubah
+            </p>
+            <button
+              type="button"
+              onClick={enableBrowserNotifications}
+              className="shrink-0 rounded-full bg-[#F6F6F8] px-[14px] py-2 text-sm font-semibold leading-[21px] text-cosmetics-purple"
+            >
+              Notify me
+            </button>
+          </div>
+        </section>
+      )}
+      {needsEmail ? (
+        <section id="EmailPrompt" className="px-5 my-auto">
+          <form
+            onSubmit={handleEmailSubmit}
+            className="flex w-full flex-col gap-5 rounded-3xl bg-white px-[14px] py-5"
+          >
+            <div className="flex flex-col gap-1">
+              <h2 className="font-semibold text-[#0C0422]">Booking {trxId}</h2>
+              <p className="text-sm leading-[21px] text-cosmetics-grey">
+                Masukkan email yang digunakan saat pemesanan
+              </p>
+            </div>
+            <label className="flex flex-col gap-[6px]">
+              <h4 className="font-semibold text-[#030504]">Email Address</h4>
+              <div className="group relative flex h-[54px] items-center justify-center rounded-full bg-[#E0E0EC] transition-all duration-300 focus-within:bg-cosmetics-gradient-purple-pink">
+                <input
+                  type="email"
+                  name="email"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  className="absolute h-[calc(100%_-_2px)] w-[calc(100%_-_2px)] rounded-full bg-[#F6F6F8] pl-[57px] pr-[13px] font-semibold text-[#030504] transition-all duration-300 placeholder:font-normal placeholder:leading-[24px] placeholder:text-[#ACACB9] focus:h-[calc(100%_-_4px)] focus:w-[calc(100%_-_4px)] focus:outline-none"
+                  placeholder="Write your complete email"
+                />
+                <div className="absolute left-[14px] top-1/2 flex w-[35px] -translate-y-1/2 justify-between">
+                  <img
+                    src="/assets/images/icons/mail.svg"
+                    alt="icon"
+                    className="size-[24px] shrink-0"
+                  />
+                  <span className="h-[26px] w-px bg-[#E0E0EC] transition-all duration-300 group-focus-within:bg-cosmetics-gradient-purple-pink" />
+                </div>
+              </div>
+              {formErrors.find((error) => error.path.includes("email")) && (
+                <p className="text-sm leading-[21px] text-[#E70011]">
+                  {
+                    formErrors.find((error) => error.path.includes("email"))
+                      ?.message
+                  }
+                </p>
+              )}
+            </label>
+            <button
+              type="submit"
+              className="flex w-full justify-center rounded-full bg-cosmetics-gradient-pink-white py-[14px] font-semibold text-white transition-all duration-300 hover:shadow-[0px_6px_22px_0px_#FF4D9E82]"
+            >
+              Show my booking
+            </button>
+          </form>
+        </section>
+      ) : notFound ? (
         <section id="NotFound" className="px-5 my-auto">
           <div className="flex flex-col items-center gap-[30px]">
             <img
@@ -92,7 +302,8 @@ export default function MyBookingDetailsPage() {
           </div>
         </section>
       ) : (
-        bookingDetails && (
+        bookingDetails &&
+        pricing && (
           <div className="flex flex-col gap-5 pb-[50px] mt-5">
             <div id="Pending" className="flex flex-col gap-5">
               <section id="ProductPurchased" className="px-5">
@@ -144,7 +355,7 @@ export default function MyBookingDetailsPage() {
                             </div>
                             <div className="flex flex-col gap-[6px]">
                               <h4 className="text-xs leading-[18px] text-cosmetics-purple">
-                                {detail.cosmetic.brand.name.toUpperCase()}
+                                {detail.cosmetic.brand?.name.toUpperCase()}
                               </h4>
                               <h3 className="line-clamp-2 h-[42px] w-full text-sm font-semibold leading-[21px]">
                                 {detail.cosmetic.name}
@@ -153,7 +364,7 @@ export default function MyBookingDetailsPage() {
                           </div>
                           <div className="flex w-full items-center justify-between">
                             <strong className="text-sm font-semibold leading-[21px] text-cosmetics-pink">
-                              {formatCurrency(detail.cosmetic.price)}
+                              {formatCurrency(detail.price)}
                             </strong>
                             <div className="rounded-full bg-[#F6F6F8] px-[12px] py-[6px]">
                               <p className="text-sm font-semibold leading-[21px]">
@@ -164,6 +375,9 @@ export default function MyBookingDetailsPage() {
                         </div>
                       </div>
                     ))}
+                    <BuyAgainButton
+                      transactionDetails={bookingDetails.transaction_details}
+                    />
                   </div>
                 </div>
               </section>
@@ -200,7 +414,7 @@ export default function MyBookingDetailsPage() {
                     className="flex flex-col gap-5"
                   >
                     <div className="box h-[1px] w-full" />
-                    {bookingDetails.is_paid ? (
+                    {isBookingPaid(bookingDetails.status) ? (
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-[6px]">
                           <img
@@ -225,7 +439,11 @@ export default function MyBookingDetailsPage() {
                           <p>Status</p>
                         </div>
                         <span className="rounded-full bg-[#FF9D2A] px-[10px] py-1 text-xs font-semibold leading-[18px]">
-                          PENDING
+                          {bookingDetails.status === "rejected"
+                            ? "REJECTED"
+                            : bookingDetails.status === "cancelled"
+                              ? "CANCELLED"
+                              : "PENDING"}
                         </span>
                       </div>
                     )}
@@ -253,7 +471,7 @@ export default function MyBookingDetailsPage() {
                         <p>Total Quantity</p>
                       </div>
                       <strong className="font-semibold">
-                        {bookingDetails.quantity}
+                        {pricing.totalQuantity}
                       </strong>
                     </div>
                     <div className="flex items-center justify-between">
@@ -266,9 +484,39 @@ export default function MyBookingDetailsPage() {
                         <p>Sub Total</p>
                       </div>
                       <strong className="font-semibold">
-                        {formatCurrency(bookingDetails.sub_total_amount)}
+                        {formatCurrency(pricing.subtotal)}
                       </strong>
                     </div>
+                    {pricing.discount > 0 && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-[6px]">
+                          <img
+                            src="/assets/images/icons/list.svg"
+                            alt="icon"
+                            className="size-5 shrink-0"
+                          />
+                          <p>Discount Code</p>
+                        </div>
+                        <strong className="font-semibold">
+                          - {formatCurrency(pricing.discount)}
+                        </strong>
+                      </div>
+                    )}
+                    {pricing.deliveryFee > 0 && (
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-[6px]">
+                          <img
+                            src="/assets/images/icons/list.svg"
+                            alt="icon"
+                            className="size-5 shrink-0"
+                          />
+                          <p>Delivery Fee</p>
+                        </div>
+                        <strong className="font-semibold">
+                          {formatCurrency(pricing.deliveryFee)}
+                        </strong>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-[6px]">
                         <img
@@ -276,10 +524,10 @@ export default function MyBookingDetailsPage() {
                           alt="icon"
                           className="size-5 shrink-0"
                         />
-                        <p>Tax 11%</p>
+                        <p>Tax {formatTaxRate(pricing.taxRate)}</p>
                       </div>
                       <strong className="font-semibold">
-                        {formatCurrency(bookingDetails.total_tax_amount)}
+                        {formatCurrency(pricing.tax)}
                       </strong>
                     </div>
                     <div className="flex items-center justify-between">
@@ -292,132 +540,29 @@ export default function MyBookingDetailsPage() {
                         <p>Grand Total</p>
                       </div>
                       <strong className="text-[22px] font-bold leading-[33px] text-cosmetics-pink">
-                        {formatCurrency(bookingDetails.sub_total_amount)}
+                        {formatCurrency(pricing.grandTotal)}
                       </strong>
                     </div>
                   </div>
                 </div>
               </section>
-              {bookingDetails.is_paid ? (
-                <section
-                  id="ProgressBar"
-                  className="relative flex items-center gap-5 px-5"
-                >
-                  <div className="progress-bar flex flex-col justify-center">
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#360CAC]" />
-                      <div className="h-[105px] w-1 rounded-full bg-[#360CAC]" />
-                    </div>
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#360CAC]" />
-                      <div className="h-[110px] w-1 rounded-full bg-[#360CAC]" />
-                    </div>
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#360CAC]" />
-                    </div>
-                  </div>
-                  <div className="flex w-full flex-col gap-5">
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/guarantee.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Booking Created</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Lorem dolor si amet data order
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/banktf.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Verifying Payment</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Sedang mastiin uang masuk
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/shippingto.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Shipping Now</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Produk sedang diantarkan
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                </section>
-              ) : (
-                <section
-                  id="ProgressBar"
-                  className="relative flex items-center gap-5 px-5"
-                >
-                  <div className="progress-bar flex flex-col justify-center">
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#360CAC]" />
-                      <div className="h-[105px] w-1 rounded-full bg-[#360CAC]" />
-                    </div>
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#360CAC]" />
-                      <div className="box2 h-[110px] w-1 rounded-full" />
-                    </div>
-                    <div className="relative z-10 flex w-4 flex-col items-center">
-                      <div className="absolute top-0 size-4 -translate-y-1/2 rounded-full bg-[#E0E0EC]" />
-                    </div>
-                  </div>
-                  <div className="flex w-full flex-col gap-5">
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/guarantee.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Booking Created</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Lorem dolor si amet data order
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/banktf.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Verifying Payment</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Sedang mastiin uang masuk
-                        </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-[10px] rounded-3xl bg-white p-5">
-                      <img
-                        src="/assets/images/icons/shippingto.svg"
-                        alt="icon"
-                        className="size-[38px] shrink-0"
-                      />
-                      <div className="flex flex-col gap-1">
-                        <h3 className="font-semibold">Shipping Now</h3>
-                        <p className="text-sm leading-[21px] text-cosmetics-grey">
-                          Produk sedang diantarkan
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                </section>
+              <section id="Invoice" className="px-5">
+                <InvoiceButton booking={bookingDetails} />
+              </section>
+              {trxId && email && canUpdateProof(bookingDetails.status) && (
+                <ProofUpdateSection
+                  booking={bookingDetails}
+                  email={email}
+                  onUpdated={handleBookingUpdated}
+                />
+              )}
+              <BookingTimeline steps={buildStatusTimeline(bookingDetails)} />
+              {trxId && email && (
+                <CancelBookingSection
+                  booking={bookingDetails}
+                  email={email}
+                  onCancelled={handleBookingUpdated}
+                />
               )}
 
               <section id="PersonalInformations" className="px-5">
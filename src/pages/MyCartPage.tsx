@@ -1,111 +1,99 @@
 import { useEffect, useState } from "react";
-import { CartItem, Cosmetic } from "../types/type";
-import apiClient from "../services/apiServices";
-import { Link } from "react-router-dom";
+import { CartLine, Cosmetic } from "../types/type";
+import { CosmeticLookup, loadCosmetics } from "../services/cosmeticLoader";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { ReorderChange } from "../services/reorder";
+import useCart from "../hooks/useCart";
+import useDiscount from "../hooks/useDiscount";
+import { formatCurrency } from "../utils/formatCurrency";
+import {
+  calculatePricing,
+  formatTaxRate,
+  toPricingLines,
+} from "../utils/pricing";
 
 export default function MyCartPage() {
+  const {
+    cart,
+    hasItem,
+    removeItem,
+    removeItems,
+    increaseQuantity,
+    decreaseQuantity,
+  } = useCart();
   const [cosmeticDetails, setCosmeticDetails] = useState<Cosmetic[]>([]);
-  const [cart, setCart] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [discountInput, setDiscountInput] = useState("");
 
-  useEffect(() => {
-    const savedCart = localStorage.getItem("cart");
-    if (savedCart) {
-      const cartItems: CartItem[] = JSON.parse(savedCart);
-      setCart(cartItems);
+  const location = useLocation();
+  const navigate = useNavigate();
+  // Kept in state and cleared from the history entry, so a reload or a later
+  // visit through "back" does not report the same changes again.
+  const [reorderChanges] = useState<ReorderChange[]>(
+    () =>
+      (location.state as { reorderChanges?: ReorderChange[] } | null)
+        ?.reorderChanges ?? []
+  );
 
-      const fetchCosmeticsDetails = async () => {
-        const validCosmetics: Cosmetic[] = [];
-        const updatedCart: CartItem[] = [];
+  useEffect(() => {
+    if (reorderChanges.length > 0) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [reorderChanges, navigate, location.pathname]);
 
-        for (const item of cartItems) {
-          try {
-            const response = await apiClient.get(`/cosmetic/${item.slug}`);
-            const cosmetic = response.data.data;
+  // Only a change in which products are in the cart needs a new lookup, not
+  // a quantity change.
+  const lookupsKey = JSON.stringify(
+    cart.map(({ cosmetic_id, slug }) => ({ cosmetic_id, slug }))
+  );
 
-            if (cosmetic) {
-              validCosmetics.push(cosmetic);
-              updatedCart.push(item);
-            } else {
-              console.warn(
-                `Cosmetic with slug ${item.slug} is no longer available`
-              );
-            }
-          } catch (error: unknown) {
-            if (error instanceof Error) {
-              setError(error.message);
-              console.error(
-                `Error fetching cosmetic with slug ${item.slug}:${error.message}`
-              );
-              const updateCartAfterError = cartItems.filter(
-                (cartItem) => cartItem.slug !== item.slug
-              );
-              setCart(updateCartAfterError);
-              localStorage.setItem(
-                "cart",
-                JSON.stringify(updateCartAfterError)
-              );
-            }
-          }
-        }
-        setCosmeticDetails(validCosmetics);
-        setLoading(false);
-      };
-      fetchCosmeticsDetails();
-    } else {
+  useEffect(() => {
+    const cartItems: CosmeticLookup[] = JSON.parse(lookupsKey);
+    if (cartItems.length === 0) {
       setLoading(false);
+      return;
     }
-  }, []);
 
-  const handleIncreaseQuantity = (slug: string) => {
-    setCart((prevCart) => {
-      const updatedCart = prevCart.map((item) =>
-        item.slug === slug && item.quantity < 10
-          ? { ...item, quantity: item.quantity + 1 }
-          : item
-      );
-      localStorage.setItem("cart", JSON.stringify(updatedCart));
-      return updatedCart;
-    });
-  };
-
-  const handleDecreaseQuantity = (slug: string) => {
-    setCart((prevCart) => {
-      const updatedCart = prevCart.map((item) =>
-        item.slug === slug && item.quantity > 1
-          ? { ...item, quantity: item.quantity - 1 }
-          : item
-      );
-      localStorage.setItem("cart", JSON.stringify(updatedCart));
-      return updatedCart;
-    });
-  };
+    const fetchCosmeticsDetails = async () => {
+      try {
+        const { cosmetics, found, missing } = await loadCosmetics(cartItems);
+        if (missing.length > 0) {
+          missing.forEach((item) =>
+            console.warn(
+              `Cosmetic with slug ${item.slug} is no longer available`
+            )
+          );
+          removeItems(missing);
+        }
+        setCosmeticDetails(
+          found.flatMap((item) => cosmetics.get(item.cosmetic_id) ?? [])
+        );
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          setError(error.message);
+          console.error(`Error fetching cosmetics: ${error.message}`);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchCosmeticsDetails();
+  }, [lookupsKey, removeItems]);
 
-  const handleRemoveItem = (slug: string) => {
-    const updatedCart = cart.filter((item) => item.slug != slug);
-    setCart(updatedCart);
-    localStorage.setItem("cart", JSON.stringify(updatedCart));
-    setCosmeticDetails((prevDetails) =>
-      prevDetails.filter((cosmetic) => cosmetic.slug !== slug)
-    );
-  };
+  const cartCosmetics = cosmeticDetails.filter((cosmetic) =>
+    hasItem(cosmetic.id)
+  );
 
-  const subTotal = cosmeticDetails.reduce((acc, cosmetic) => {
+  const lines: CartLine[] = cartCosmetics.flatMap((cosmetic) => {
     const cartItem = cart.find((item) => item.cosmetic_id === cosmetic.id);
-    return acc + (cartItem ? cosmetic.price * cartItem.quantity : 0);
-  }, 0);
-  const totalQuantity = cart.reduce((acc, item) => acc + item.quantity, 0);
-  const tax = subTotal * 0.11;
-  const total = subTotal + tax;
-  // Format Currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+    return cartItem ? [{ cosmetic, quantity: cartItem.quantity }] : [];
+  });
+  const discount = useDiscount(lines);
+
+  const pricing = calculatePricing(toPricingLines(lines), {
+    discount: discount.amount,
+  });
 
   if (loading) {
     return <p>Loading data...</p>;
@@ -141,10 +129,29 @@ export default function MyCartPage() {
           </div>
         </div>
       </section>
+      {reorderChanges.length > 0 && (
+        <section id="ReorderChanges" className="px-5">
+          <div className="flex flex-col gap-2 rounded-3xl bg-white px-5 py-5">
+            <h2 className="font-semibold">Beberapa produk berubah</h2>
+            {reorderChanges.map((change) => (
+              <p
+                key={`${change.kind}-${change.cosmetic_id}`}
+                className="text-sm leading-[21px] text-cosmetics-grey"
+              >
+                {change.kind === "unavailable"
+                  ? `${change.name} sudah tidak tersedia dan tidak ditambahkan.`
+                  : `Harga ${change.name} berubah dari ${formatCurrency(
+                      change.previous_price
+                    )} menjadi ${formatCurrency(change.current_price ?? 0)}.`}
+              </p>
+            ))}
+          </div>
+        </section>
+      )}
       <div className="flex flex-col gap-[40px]">
         <section id="ListItems">
           <div className="flex flex-col gap-[16px] px-5">
-            {cosmeticDetails.map((cosmetic) => {
+            {cartCosmetics.map((cosmetic) => {
               const cartItem = cart.find(
                 (item) => item.cosmetic_id === cosmetic.id
               );
@@ -166,7 +173,7 @@ export default function MyCartPage() {
                         </div>
                         <div className="flex flex-col gap-[6px]">
                           <h4 className="text-xs leading-[18px] text-cosmetics-purple">
-                            {cosmetic.brand.name.toUpperCase()}
+                            {cosmetic.brand?.name.toUpperCase()}
                           </h4>
                           <h3 className="line-clamp-2 h-[42px] w-full text-sm font-semibold leading-[21px]">
                             {cosmetic.name}
@@ -175,7 +182,7 @@ export default function MyCartPage() {
                       </div>
                       <button
                         className="shrink-0"
-                        onClick={() => handleRemoveItem(cosmetic.slug)}
+                        onClick={() => removeItem(cosmetic.slug)}
                       >
                         <img
                           src="/assets/images/icons/garbage.svg"
@@ -192,9 +199,7 @@ export default function MyCartPage() {
                         /qty
                       </p>
                       <div className="flex w-[89px] items-center justify-between gap-1 rounded-full bg-[#F6F6F8] px-2 py-[6px]">
-                        <button
-                          onClick={() => handleDecreaseQuantity(cosmetic.slug)}
-                        >
+                        <button onClick={() => decreaseQuantity(cosmetic.slug)}>
                           <img
                             src="/assets/images/icons/min.svg"
                             alt="icon"
@@ -204,9 +209,7 @@ export default function MyCartPage() {
                         <p className="text-center text-sm font-semibold leading-[21px]">
                           {cartItem?.quantity || 1}
                         </p>
-                        <button
-                          onClick={() => handleIncreaseQuantity(cosmetic.slug)}
-                        >
+                        <button onClick={() => increaseQuantity(cosmetic.slug)}>
                           <img
                             src="/assets/images/icons/plus.svg"
                             alt="icon"
@@ -229,18 +232,38 @@ export default function MyCartPage() {
                 <input
                   placeholder="Enter your discount code"
                   type="text"
+                  value={discount.code ?? discountInput}
+                  onChange={(e) => setDiscountInput(e.target.value)}
+                  readOnly={discount.code !== null}
                   className="absolute w-full rounded-full bg-[#F6F6F8] py-[14px] pl-4 pr-[92px] font-semibold text-[#030504] placeholder:text-sm placeholder:font-normal placeholder:leading-[21px] placeholder:text-cosmetics-grey focus:outline-none"
                 />
-                <button
-                  type="button"
-                  className="absolute right-[6px] top-1/2 -translate-y-1/2 rounded-full bg-cosmetics-purple px-[14px] py-2 text-sm font-semibold leading-[21px] text-white"
-                >
-                  Apply
-                </button>
+                {discount.code ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      discount.remove();
+                      setDiscountInput("");
+                    }}
+                    className="absolute right-[6px] top-1/2 -translate-y-1/2 rounded-full bg-cosmetics-purple px-[14px] py-2 text-sm font-semibold leading-[21px] text-white"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={discount.applying}
+                    onClick={() => discount.apply(discountInput)}
+                    className="absolute right-[6px] top-1/2 -translate-y-1/2 rounded-full bg-cosmetics-purple px-[14px] py-2 text-sm font-semibold leading-[21px] text-white"
+                  >
+                    {discount.applying ? "..." : "Apply"}
+                  </button>
+                )}
               </div>
-              {/* <p className="text-sm leading-[21px] text-[#E70011]">
-                Lorem tidak valid silahkan coba lagi ya
-              </p> */}
+              {discount.error && (
+                <p className="text-sm leading-[21px] text-[#E70011]">
+                  {discount.error}
+                </p>
+              )}
             </div>
             <div className="box h-[1px] w-full" />
             <div className="flex items-center justify-between">
@@ -252,7 +275,9 @@ export default function MyCartPage() {
                 />
                 <p>Total Quantity</p>
               </div>
-              <strong className="font-semibold">{totalQuantity} Items</strong>
+              <strong className="font-semibold">
+                {pricing.totalQuantity} Items
+              </strong>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-[6px]">
@@ -264,7 +289,7 @@ export default function MyCartPage() {
                 <p>Sub Total</p>
               </div>
               <strong className="font-semibold">
-                {formatCurrency(subTotal)}
+                {formatCurrency(pricing.subtotal)}
               </strong>
             </div>
             <div className="flex items-center justify-between">
@@ -276,7 +301,11 @@ export default function MyCartPage() {
                 />
                 <p>Discount Code</p>
               </div>
-              <strong className="font-semibold">Rp 0</strong>
+              <strong className="font-semibold">
+                {pricing.discount > 0
+                  ? `- ${formatCurrency(pricing.discount)}`
+                  : formatCurrency(0)}
+              </strong>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-[6px]">
@@ -285,9 +314,11 @@ export default function MyCartPage() {
                   alt="icon"
                   className="size-5 shrink-0"
                 />
-                <p>Tax 11%</p>
+                <p>Tax {formatTaxRate(pricing.taxRate)}</p>
               </div>
-              <strong className="font-semibold">{formatCurrency(tax)}</strong>
+              <strong className="font-semibold">
+                {formatCurrency(pricing.tax)}
+              </strong>
             </div>
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-[6px]">
@@ -299,7 +330,7 @@ export default function MyCartPage() {
                 <p>Grand Total</p>
               </div>
               <strong className="text-[22px] font-bold leading-[33px] text-cosmetics-pink">
-                {formatCurrency(total)}
+                {formatCurrency(pricing.grandTotal)}
               </strong>
             </div>
 
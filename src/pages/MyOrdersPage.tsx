@@ -1,10 +1,18 @@
-import { use, useState } from "react";
+import { useState } from "react";
 import { z } from "zod";
 
 import { Link, useNavigate } from "react-router-dom";
 import { viewBookingSchema } from "../types/validationBooking";
-import apiClient from "../services/apiServices";
-import { AxiosError, isAxiosError } from "axios";
+import { checkBooking } from "../services/endpoints";
+import { queryCache } from "../services/queryCache";
+import { queryKeys } from "../services/queries";
+import { rememberBookingEmail } from "../services/bookingAccessStorage";
+import {
+  readOrderHistory,
+  removeOrderHistoryEntry,
+} from "../services/orderHistoryStorage";
+import OrderHistoryList from "../components/OrderHistoryList";
+import { OrderHistoryEntry } from "../types/type";
 
 export default function MyOrdersPage() {
   const [formData, setFormData] = useState({
@@ -14,6 +22,7 @@ export default function MyOrdersPage() {
 
   const [formErrors, setFormErrors] = useState<z.ZodIssue[]>([]);
   const [loading, setLoading] = useState(false);
+  const [orderHistory, setOrderHistory] = useState(readOrderHistory);
   const navigate = useNavigate();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -37,29 +46,37 @@ export default function MyOrdersPage() {
     setLoading(true);
 
     try {
-      const response = await apiClient.post("/check-booking", formData);
-      if (response.status === 200 && response.data.data) {
-        navigate("/my-booking", {
-          state: { bookingDetails: response.data.data, notFound: false },
-        });
+      const bookingDetails = await checkBooking(formData);
+      if (bookingDetails) {
+        const { booking_trx_id } = bookingDetails;
+        rememberBookingEmail(booking_trx_id, formData.email);
+        queryCache.setData(
+          queryKeys.booking({ booking_trx_id, email: formData.email }),
+          bookingDetails
+        );
+        navigate(`/my-booking/${encodeURIComponent(booking_trx_id)}`);
       } else {
         navigate("/my-booking", {
           state: { bookingDetails: null, notFound: true },
         });
       }
     } catch (err) {
-      if (isAxiosError(err)) {
-        if (err.response && err.response.status === 404) {
-          navigate("/my-booking", {
-            state: { bookingDetails: null, notFound: true },
-          });
-        }
-      }
+      console.error("Error checking booking", err);
     } finally {
       setLoading(false);
     }
   };
 
+  // The booking page loads the order itself once it knows the email.
+  const handleOpenOrder = (order: OrderHistoryEntry) => {
+    rememberBookingEmail(order.booking_trx_id, order.email);
+  };
+
+  const handleRemoveOrder = (order: OrderHistoryEntry) => {
+    removeOrderHistoryEntry(order.booking_trx_id);
+    setOrderHistory(readOrderHistory());
+  };
+
   return (
     <main className="relative mx-auto flex min-h-screen max-w-[640px] flex-col gap-5 bg-[#F6F6F8] pb-[162px]">
       <div id="Background" className="absolute left-0 right-0 top-0">
@@ -156,6 +173,13 @@ export default function MyOrdersPage() {
             </button>
           </div>
         </form>
+        {orderHistory.length > 0 && (
+          <OrderHistoryList
+            orders={orderHistory}
+            onOpen={handleOpenOrder}
+            onRemove={handleRemoveOrder}
+          />
+        )}
       </div>
       <nav className="fixed bottom-0 left-0 right-0 z-30 mx-auto w-full">
         <div className="mx-auto max-w-[640px]">
@@ -1,101 +1,187 @@
-import React, { use, useEffect, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { z } from "zod";
-import { BookingFormData, CartItem, Cosmetic } from "../types/type";
+import { BookingFormData, CartLine, Cosmetic } from "../types/type";
 import { Link, useNavigate } from "react-router-dom";
-import apiClient from "../services/apiServices";
+import {
+  createBookingTransaction,
+  findBookingTransaction,
+} from "../services/endpoints";
+import { describeSubmissionError } from "../services/apiErrors";
+import { isCancelledError, withRetry } from "../services/retry";
+import { rememberBookingEmail } from "../services/bookingAccessStorage";
+import { addOrderHistoryEntry } from "../services/orderHistoryStorage";
+import { CosmeticLookup, loadCosmetics } from "../services/cosmeticLoader";
+import useCart from "../hooks/useCart";
+import useDiscount from "../hooks/useDiscount";
+import { clearDiscountCode } from "../services/discountStorage";
+import {
+  clearBookingData,
+  ensureCheckoutSession,
+  readBookingData,
+  readCheckoutSession,
+  saveCheckoutResult,
+} from "../services/bookingStorage";
 import { paymentSchema } from "../types/validationBooking";
 import AccordionSection from "../components/AccordionSection";
+import PaymentMethodOptions from "../components/PaymentMethodOptions";
+import ProofUploadField from "../components/ProofUploadField";
+import useProofFile from "../hooks/useProofFile";
+import {
+  findPaymentMethod,
+  paymentMethodGroups,
+  paymentMethods,
+} from "../data/paymentMethods";
+import { formatCurrency } from "../utils/formatCurrency";
+import {
+  calculatePricing,
+  formatTaxRate,
+  toPricingLines,
+} from "../utils/pricing";
+import { quoteShipping } from "../utils/shipping";
 
 type FormData = {
-  proof: File | null;
-  cosmetic_ids: { id: number; quantity: number }[];
+  payment_method: string | null;
 };
 
 export default function PaymentPage() {
   const [formData, setFormData] = useState<FormData>({
-    proof: null,
-    cosmetic_ids: [],
+    payment_method: null,
   });
+  const proofFile = useProofFile();
 
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const { cart, removeItems, clearCart } = useCart();
   const [cosmeticDetails, setCosmeticDetails] = useState<Cosmetic[]>([]);
   const [bookingData, setBookingData] = useState<BookingFormData | null>(null);
   const [formErrors, setFormErrors] = useState<z.ZodIssue[]>([]);
 
   const [loading, setLoading] = useState(true);
-  const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
 
-  const TAX_RATE = 0.11;
   const navigate = useNavigate();
+  const isCompletedRef = useRef(false);
 
-  const fetchCosmeticDetails = async (cartItems: CartItem[]) => {
-    try {
-      const fetchedDetails = await Promise.all(
-        cartItems.map(async (item) => {
-          const response = await apiClient.get(`/cosmetic/${item.slug}`);
-          return response.data.data;
-        })
-      );
-      setCosmeticDetails(fetchedDetails);
-      setLoading(false);
-
-      const cosmeticIdsWithQuantities = cartItems.map((cartItem) => ({
-        id: cartItem.cosmetic_id,
-        quantity: cartItem.quantity,
-      }));
-      setFormData((prevData) => ({
-        ...prevData,
-        cosmetic_ids: cosmeticIdsWithQuantities,
-      }));
-    } catch (error) {
-      console.error("Error fetching cosmetic details:", error);
-      setError("Failed to fetch cosmetic details");
-      setLoading(false);
-    }
-  };
+  const [submitting, setSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [retryAttempt, setRetryAttempt] = useState(0);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // State updates are too late to stop a double click, so the lock is a ref.
+  const submitLockRef = useRef(false);
+
+  const completeCheckout = useCallback(
+    (bookingTrxId: string, email: string) => {
+      isCompletedRef.current = true;
+      rememberBookingEmail(bookingTrxId, email);
+      clearCart();
+      clearBookingData();
+      clearDiscountCode();
+      // The email is left to the session store so it stays out of the URL,
+      // browser history and referrers.
+      navigate(`/booking-finished?trx_id=${encodeURIComponent(bookingTrxId)}`);
+    },
+    [clearCart, navigate]
+  );
 
   useEffect(() => {
-    const cartData = localStorage.getItem("cart");
-    const savedBookingData = localStorage.getItem("bookingData");
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
-    if (savedBookingData) {
-      setBookingData(JSON.parse(savedBookingData) as BookingFormData);
+  // Only a change in which products are in the cart needs a new lookup, not
+  // a quantity change.
+  const lookupsKey = JSON.stringify(
+    cart.map(({ cosmetic_id, slug }) => ({ cosmetic_id, slug }))
+  );
+
+  useEffect(() => {
+    // The booking went through but the page was left before finishing up.
+    const session = readCheckoutSession();
+    if (session?.booking_trx_id && session.email) {
+      completeCheckout(session.booking_trx_id, session.email);
+      return;
     }
-    if (!cartData || (cartData && JSON.parse(cartData).length === 0)) {
-      navigate("/");
+
+    const savedBookingData = readBookingData();
+    if (!savedBookingData) {
+      navigate("/booking");
       return;
     }
+    setBookingData(savedBookingData);
+  }, [navigate, completeCheckout]);
 
-    const cartItems = JSON.parse(cartData) as CartItem[];
-    setCart(cartItems);
-    fetchCosmeticDetails(cartItems);
-  }, [navigate]);
+  useEffect(() => {
+    const cartItems: CosmeticLookup[] = JSON.parse(lookupsKey);
+    if (cartItems.length === 0) {
+      if (!isCompletedRef.current) {
+        navigate("/");
+      }
+      return;
+    }
 
-  const subtotal = cosmeticDetails.reduce((acc, cosmetic) => {
-    const cartItem = cart.find((item) => item.cosmetic_id === cosmetic.id);
-    return acc + (cartItem ? cosmetic.price * cartItem.quantity : 0);
-  }, 0);
+    const fetchCosmeticDetails = async () => {
+      try {
+        const { cosmetics, found, missing } = await loadCosmetics(cartItems);
+        if (missing.length > 0) {
+          removeItems(missing);
+        }
+        setCosmeticDetails(
+          found.flatMap((item) => cosmetics.get(item.cosmetic_id) ?? [])
+        );
+        setLoading(false);
+      } catch (error) {
+        console.error("Error fetching cosmetic details:", error);
+        setError("Failed to fetch cosmetic details");
+        setLoading(false);
+      }
+    };
+    fetchCosmeticDetails();
+  }, [lookupsKey, navigate, removeItems]);
 
-  const totalQuantity = cart.reduce((acc, item) => acc + item.quantity, 0);
+  const lines: CartLine[] = cosmeticDetails.flatMap((cosmetic) => {
+    const cartItem = cart.find((item) => item.cosmetic_id === cosmetic.id);
+    return cartItem ? [{ cosmetic, quantity: cartItem.quantity }] : [];
+  });
+  const discount = useDiscount(lines);
 
-  const tax = subtotal * TAX_RATE;
-  const total = subtotal + tax;
+  const pricingLines = toPricingLines(lines);
+  const itemsPricing = calculatePricing(pricingLines, {
+    discount: discount.amount,
+  });
+  const shipping = bookingData
+    ? quoteShipping({
+        post_code: bookingData.post_code,
+        city: bookingData.city,
+        quantity: itemsPricing.totalQuantity,
+        orderValue: itemsPricing.taxableAmount,
+      })
+    : null;
+  const pricing = calculatePricing(pricingLines, {
+    discount: discount.amount,
+    deliveryFee: shipping?.fee ?? 0,
+  });
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files ? e.target.files[0] : null;
+  const handleSelectMethod = (id: string) => {
+    if (!findPaymentMethod(id)?.enabled) {
+      return;
+    }
     setFormData((prev) => ({
       ...prev,
-      proof: file,
+      payment_method: id,
     }));
-    setFileName(file ? file.name : null);
+    setFormErrors((prev) =>
+      prev.filter((error) => !error.path.includes("payment_method"))
+    );
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (submitLockRef.current || discount.restoring) {
+      return;
+    }
 
-    const validation = paymentSchema.safeParse(formData);
+    const validation = paymentSchema.safeParse({
+      ...formData,
+      proof: proofFile.proof,
+    });
 
     if (!validation.success) {
       setFormErrors(validation.error.issues);
@@ -104,9 +190,8 @@ export default function PaymentPage() {
     setFormErrors([]);
     const submissionData = new FormData();
 
-    if (formData.proof) {
-      submissionData.append("proof", formData.proof);
-    }
+    submissionData.append("proof", validation.data.proof);
+    submissionData.append("payment_method", validation.data.payment_method);
 
     if (bookingData) {
       submissionData.append("name", bookingData.name);
@@ -117,7 +202,12 @@ export default function PaymentPage() {
       submissionData.append("post_code", bookingData.post_code);
     }
 
-    formData.cosmetic_ids.forEach((item, index) => {
+    const cosmeticIds = lines.map((line) => ({
+      id: line.cosmetic.id,
+      quantity: line.quantity,
+    }));
+
+    cosmeticIds.forEach((item, index) => {
       submissionData.append(`cosmetic_ids[${index}][id]`, String(item.id));
       submissionData.append(
         `cosmetic_ids[${index}][quantity]`,
@@ -125,52 +215,94 @@ export default function PaymentPage() {
       );
     });
 
-    try {
-      setLoading(true);
-      const response = await apiClient.post(
-        "/booking-transaction",
-        submissionData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-          },
-        }
-      );
-      if (response.status === 200 || response.status === 201) {
-        console.log("Transaction response data:", response.data.data);
-        const bookingTrxId = response.data.data.booking_trx_id;
-        const email = response.data.data.email;
+    if (discount.code && pricing.discount > 0) {
+      submissionData.append("discount_code", discount.code);
+      submissionData.append("discount_amount", String(pricing.discount));
+    }
 
-        if (!bookingTrxId) {
-          console.error("Error: booking_trx_id is undefined");
-        }
+    if (shipping) {
+      submissionData.append("delivery_fee", String(pricing.deliveryFee));
+      submissionData.append("shipping_zone", shipping.zone.id);
+    }
 
-        setSuccessMessage("Payment proof uploaded successfully");
+    // Everything but the proof identifies the order; replacing the attachment
+    // is still the same checkout.
+    const fingerprint = JSON.stringify(
+      [...submissionData.entries()].filter(([name]) => name !== "proof")
+    );
+    const previousSession = readCheckoutSession();
+    const session = ensureCheckoutSession(fingerprint);
+    if (session.booking_trx_id && session.email) {
+      completeCheckout(session.booking_trx_id, session.email);
+      return;
+    }
+    // A reused key means an earlier attempt may already have been accepted.
+    let mayExist = previousSession?.idempotency_key === session.idempotency_key;
 
-        localStorage.removeItem("cart");
-        localStorage.removeItem("bookingData");
+    submitLockRef.current = true;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-        setFormData({ proof: null, cosmetic_ids: [] });
-        setLoading(false);
-        navigate(`/booking-finished?trx_id=${bookingTrxId}&email=${email}`);
-      } else {
-        console.error("Unexpected response status", response.status);
-        setLoading(false);
+    const submitBooking = async () => {
+      if (mayExist) {
+        const existing = await findBookingTransaction(
+          session.idempotency_key,
+          controller.signal
+        );
+        if (existing) {
+          return existing;
+        }
       }
+      mayExist = true;
+      return createBookingTransaction(submissionData, {
+        idempotencyKey: session.idempotency_key,
+        signal: controller.signal,
+        onUploadProgress: setUploadProgress,
+      });
+    };
+
+    setSubmitting(true);
+    setSubmitError(null);
+    setUploadProgress(0);
+    setRetryAttempt(0);
+
+    try {
+      const booking = await withRetry(submitBooking, {
+        signal: controller.signal,
+        onRetry: (attempt) => {
+          setRetryAttempt(attempt);
+          setUploadProgress(0);
+        },
+      });
+      saveCheckoutResult(booking.booking_trx_id, booking.email);
+      addOrderHistoryEntry({
+        booking_trx_id: booking.booking_trx_id,
+        email: booking.email,
+        total_amount: booking.total_amount,
+        quantity: pricing.totalQuantity,
+        thumbnails: lines.map((line) => line.cosmetic.thumbnail),
+        created_at: new Date().toISOString(),
+      });
+
+      setFormData({ payment_method: null });
+      proofFile.reset();
+      completeCheckout(booking.booking_trx_id, booking.email);
     } catch (error) {
-      console.error("Error submitting payment proof", error);
-      setLoading(false);
-      setFormErrors([]);
+      if (!isCancelledError(error)) {
+        console.error("Error submitting payment proof", error);
+      }
+      const { message, fieldErrors } = describeSubmissionError(error);
+      setSubmitError(message);
+      setFormErrors(fieldErrors);
+    } finally {
+      abortControllerRef.current = null;
+      submitLockRef.current = false;
+      setSubmitting(false);
     }
   };
 
-  // Format Currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("id-ID", {
-      style: "currency",
-      currency: "IDR",
-      maximumFractionDigits: 0,
-    }).format(value);
+  const handleCancelSubmit = () => {
+    abortControllerRef.current?.abort();
   };
 
   if (loading) {
@@ -276,7 +408,9 @@ export default function PaymentPage() {
               />
               <p>Total Quantity</p>
             </div>
-            <strong className="font-semibold">{totalQuantity} Items</strong>
+            <strong className="font-semibold">
+              {pricing.totalQuantity} Items
+            </strong>
           </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-[6px]">
@@ -288,7 +422,7 @@ export default function PaymentPage() {
               <p>Sub Total</p>
             </div>
             <strong className="font-semibold">
-              {formatCurrency(subtotal)}
+              {formatCurrency(pricing.subtotal)}
             </strong>
           </div>
           <div className="flex items-center justify-between">
@@ -300,7 +434,11 @@ export default function PaymentPage() {
               />
               <p>Discount Code</p>
             </div>
-            <strong className="font-semibold">Rp 0</strong>
+            <strong className="font-semibold">
+              {discount.code
+                ? `${discount.code} (- ${formatCurrency(pricing.discount)})`
+                : formatCurrency(0)}
+            </strong>
           </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-[6px]">
@@ -311,8 +449,20 @@ export default function PaymentPage() {
               />
               <p>Delivery Fee</p>
             </div>
-            <strong className="font-semibold">Rp 0 (Promo)</strong>
+            <strong className="font-semibold">
+              {shipping?.reason === "free_shipping"
+                ? "Free"
+                : shipping?.reason === "promo"
+                  ? `${formatCurrency(pricing.deliveryFee)} (Promo)`
+                  : formatCurrency(pricing.deliveryFee)}
+            </strong>
           </div>
+          {shipping?.matchedBy === "fallback" && (
+            <p className="text-sm leading-[21px] text-cosmetics-grey">
+              Kode pos dan kota tidak dikenali, ongkir memakai tarif standar.
+              Periksa kembali alamat pengiriman anda.
+            </p>
+          )}
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-[6px]">
               <img
@@ -322,7 +472,11 @@ export default function PaymentPage() {
               />
               <p>Insurance</p>
             </div>
-            <strong className="font-semibold">Included</strong>
+            <strong className="font-semibold">
+              {pricing.insuranceFee > 0
+                ? formatCurrency(pricing.insuranceFee)
+                : "Included"}
+            </strong>
           </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-[6px]">
@@ -331,9 +485,11 @@ export default function PaymentPage() {
                 alt="icon"
                 className="size-5 shrink-0"
               />
-              <p>Tax 11%</p>
+              <p>Tax {formatTaxRate(pricing.taxRate)}</p>
             </div>
-            <strong className="font-semibold">{formatCurrency(tax)}</strong>
+            <strong className="font-semibold">
+              {formatCurrency(pricing.tax)}
+            </strong>
           </div>
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-[6px]">
@@ -345,188 +501,39 @@ export default function PaymentPage() {
               <p>Grand Total</p>
             </div>
             <strong className="text-[22px] font-bold leading-[33px] text-cosmetics-pink">
-              {formatCurrency(total)}
+              {formatCurrency(pricing.grandTotal)}
             </strong>
           </div>
         </div>
       </AccordionSection>
 
-      <AccordionSection
-        title="Trusted E-Wallets"
-        subTitle="Choose lorem dolor active"
-        iconSrc="/assets/images/icons/wallet.svg"
-      >
-        <div id="TrustedEwalletsJ" className="flex flex-col gap-5">
-          <div className="box h-[1px] w-full" />
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <img
-                src="/assets/images/thumbnails/link-aja.png"
-                alt="image"
-                className="h-[60px] w-[80px] shrink-0"
-              />
-              <div>
-                <h4 className="font-semibold">LinkAja Pro</h4>
-                <p className="text-sm leading-[21px] text-cosmetics-grey">
-                  Offline
-                </p>
-              </div>
-            </div>
-            <span className="rounded-full bg-[#F6F6F8] px-[14px] py-2">
-              <p className="text-sm font-semibold leading-[21px] text-[#ACACB9]">
-                Inactive
-              </p>
-            </span>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <img
-                src="/assets/images/thumbnails/ovo.png"
-                alt="image"
-                className="h-[60px] w-[80px] shrink-0"
-              />
-              <div>
-                <h4 className="font-semibold">OVO Inter</h4>
-                <p className="text-sm leading-[21px] text-cosmetics-grey">
-                  Offline
-                </p>
-              </div>
-            </div>
-            <span className="rounded-full bg-[#F6F6F8] px-[14px] py-2">
-              <p className="text-sm font-semibold leading-[21px] text-[#ACACB9]">
-                Inactive
-              </p>
-            </span>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-4">
-              <img
-                src="/assets/images/thumbnails/gopay.png"
-                alt="image"
-                className="h-[60px] w-[80px] shrink-0"
-              />
-              <div>
-                <h4 className="font-semibold">Link Aja</h4>
-                <p className="text-sm leading-[21px] text-cosmetics-grey">
-                  Offline
-                </p>
-              </div>
-            </div>
-            <span className="rounded-full bg-[#F6F6F8] px-[14px] py-2">
-              <p className="text-sm font-semibold leading-[21px] text-[#ACACB9]">
-                Inactive
-              </p>
-            </span>
-          </div>
-        </div>
-      </AccordionSection>
-
-      <section id="CasOnDelivery" className="px-5">
-        <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-[10px]">
-              <img
-                src="/assets/images/icons/cash.svg"
-                alt="icon"
-                className="size-[38px] shrink-0"
-              />
-              <div className="flex flex-col gap-1">
-                <h3 className="font-semibold text-[#0C0422]">
-                  Cash on Delivery
-                </h3>
-                <p className="text-sm leading-[21px] text-[#8C8582]">
-                  Choose lorem dolor active
-                </p>
-              </div>
-            </div>
-            <button
-              type="button"
-              data-expand="CasOnDeliveryJ"
-              className="shrink-0"
-            >
-              <img
-                src="/assets/images/icons/bottom.svg"
-                alt="icon"
-                className="size-6 shrink-0 transition-all duration-300"
-              />
-            </button>
-          </div>
-          <div id="CasOnDeliveryJ" className="flex flex-col gap-5">
-            <div className="box h-[1px] w-full" />
-            <div className="rounded-2xl bg-[#F6F6F8] p-[10px]">
-              <p className="text-sm">
-                Layanan pembayaran ini belum si amet tersedia karena sedang
-                proses dolor.
-              </p>
-            </div>
-          </div>
-        </div>
-      </section>
-      <section id="BankTransfer" className="px-5">
-        <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-[10px]">
-              <img
-                src="/assets/images/icons/banktf.svg"
-                alt="icon"
-                className="size-[38px] shrink-0"
-              />
-              <div className="flex flex-col gap-1">
-                <h3 className="font-semibold text-[#0C0422]">Bank Transfer</h3>
-                <p className="text-sm leading-[21px] text-[#8C8582]">
-                  Choose lorem dolor active
-                </p>
-              </div>
-            </div>
-            <button
-              type="button"
-              data-expand="BankTransferJ"
-              className="shrink-0"
-            >
-              <img
-                src="/assets/images/icons/bottom.svg"
-                alt="icon"
-                className="size-6 shrink-0 transition-all duration-300"
-              />
-            </button>
-          </div>
-          <div id="BankTransferJ" className="flex flex-col gap-5">
-            <div className="box h-[1px] w-full" />
-            <div className="flex items-start gap-4">
-              <img
-                src="/assets/images/thumbnails/bca.png"
-                alt="image"
-                className="h-[60px] w-[81px] shrink-0"
-              />
-              <div>
-                <h4 className="text-sm leading-[21px] text-cosmetics-grey">
-                  Bank Central Asia
-                </h4>
-                <strong className="font-semibold">9893981092</strong>
-                <p className="text-sm leading-[21px] text-cosmetics-grey">
-                  PT Shayna Beauty
-                </p>
-              </div>
-            </div>
-            <div className="flex items-start gap-4">
-              <img
-                src="/assets/images/thumbnails/mandiri.png"
-                alt="image"
-                className="h-[60px] w-[81px] shrink-0"
+      {paymentMethodGroups.map((group) => {
+        const methods = paymentMethods.filter(
+          (method) => method.group === group.id
+        );
+        return (
+          <AccordionSection
+            key={group.id}
+            title={group.title}
+            subTitle={group.subTitle}
+            iconSrc={group.iconSrc}
+          >
+            <div className="flex flex-col gap-5">
+              <div className="box h-[1px] w-full" />
+              {!methods.some((method) => method.enabled) && (
+                <div className="rounded-2xl bg-[#F6F6F8] p-[10px]">
+                  <p className="text-sm">{group.unavailableMessage}</p>
+                </div>
+              )}
+              <PaymentMethodOptions
+                methods={methods}
+                selectedId={formData.payment_method}
+                onSelect={handleSelectMethod}
               />
-              <div>
-                <h4 className="text-sm leading-[21px] text-cosmetics-grey">
-                  Bank Mandiri
-                </h4>
-                <strong className="font-semibold">193084820912</strong>
-                <p className="text-sm leading-[21px] text-cosmetics-grey">
-                  PT Shayna Beauty
-                </p>
-              </div>
             </div>
-          </div>
-        </div>
-      </section>
+          </AccordionSection>
+        );
+      })}
       <form onSubmit={handleSubmit} className="flex flex-col gap-5 px-5">
         <section id="PaymentConfirmation">
           <div className="flex flex-col gap-5 rounded-3xl bg-white px-[14px] py-5">
@@ -546,49 +553,70 @@ export default function PaymentPage() {
               </div>
             </div>
             <div className="box h-[1px] w-full" />
-            <label className="flex flex-col gap-[6px]">
-              <h4 className="font-semibold text-[#030504]">Proof of Payment</h4>
-              <div className="group relative flex h-[54px] items-center justify-center rounded-full bg-[#E0E0EC] transition-all duration-300 focus-within:bg-cosmetics-gradient-purple-pink">
-                <div className="h-[calc(100%_-_2px)] w-[calc(100%_-_2px)] rounded-full bg-[#F6F6F8] transition-all duration-300 focus-within:h-[calc(100%_-_4px)] focus-within:w-[calc(100%_-_4px)]">
-                  <p
-                    id="upload"
-                    className="absolute left-[57px] top-1/2 -translate-y-1/2 py-[15px] text-[#ACACB9]"
-                  >
-                    {fileName ? fileName : "Add an attachment"}
+            <div className="flex items-center justify-between">
+              <p>Payment Method</p>
+              <strong className="font-semibold">
+                {findPaymentMethod(formData.payment_method)?.name ??
+                  "Not selected"}
+              </strong>
+            </div>
+            {formErrors.find((error) =>
+              error.path.includes("payment_method")
+            ) && (
+              <p className="text-sm leading-[21px] text-[#E70011]">
+                {
+                  formErrors.find((error) =>
+                    error.path.includes("payment_method")
+                  )?.message
+                }
+              </p>
+            )}
+            <ProofUploadField
+              proofFile={proofFile}
+              error={
+                [...proofFile.issues, ...formErrors].find((error) =>
+                  error.path.includes("proof")
+                )?.message
+              }
+            />
+            {submitting && (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm leading-[21px] text-cosmetics-grey">
+                    {retryAttempt > 0
+                      ? `Connection lost, retrying (${retryAttempt})...`
+                      : `Uploading ${Math.round(uploadProgress * 100)}%`}
                   </p>
-                  <input
-                    type="file"
-                    name="proof"
-                    onChange={handleChange}
-                    id="file-upload"
-                    className="absolute top-1/2 w-full -translate-y-1/2 rounded-full py-[15px] pl-[57px] pr-[13px] font-semibold text-[#030504] opacity-0 file:hidden focus:outline-none"
+                  <button
+                    type="button"
+                    onClick={handleCancelSubmit}
+                    className="text-sm font-semibold leading-[21px] text-[#E70011]"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="h-2 w-full rounded-full bg-[#EDEDF5]">
+                  <div
+                    className="h-2 rounded-full bg-cosmetics-purple transition-all duration-300"
+                    style={{ width: `${Math.round(uploadProgress * 100)}%` }}
                   />
-                  <div className="absolute left-[14px] top-1/2 flex w-[35px] -translate-y-1/2 justify-between">
-                    <img
-                      src="/assets/images/icons/list.svg"
-                      alt="icon"
-                      className="size-[24px] shrink-0"
-                    />
-                    <span className="h-[26px] w-px bg-[#E0E0EC] transition-all duration-300 group-focus-within:bg-cosmetics-gradient-purple-pink" />
-                  </div>
                 </div>
               </div>
-              {formErrors.find((error) => error.path.includes("proof")) && (
-                <p className="text-sm leading-[21px] text-[#E70011]">
-                  {
-                    formErrors.find((error) => error.path.includes("proof"))
-                      ?.message
-                  }
-                </p>
-              )}
-            </label>
+            )}
+            {submitError && (
+              <p className="text-sm leading-[21px] text-[#E70011]">
+                {submitError}
+              </p>
+            )}
             <button
               type="submit"
-              disabled={loading}
+              disabled={
+                submitting || proofFile.processing || discount.restoring
+              }
               className="flex w-full items-center justify-between rounded-full bg-cosmetics-gradient-pink-white px-5 py-[14px] transition-all duration-300 hover:shadow-[0px_6px_22px_0px_#FF4D9E82]"
             >
               <strong className="font-semibold text-white">
-                {loading ? "Submitting..." : "Confirm my payment"}
+                {submitting ? "Submitting..." : "Confirm my payment"}
               </strong>
               <img
                 src="/assets/images/icons/right.svg"
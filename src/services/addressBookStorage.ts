@@ -0,0 +1,118 @@
+import { BookingFormData, SavedAddress } from "../types/type";
+import { savedAddressSchema } from "../types/storageSchemas";
+import { createId } from "../utils/createId";
+import {
+  definePersistedKey,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+} from "./persistence";
+
+// Unlike the checkout draft, the address book is kept on the device until
+// the customer removes it, so it is only written when they opt in.
+const addressBookKey = definePersistedKey<SavedAddress[]>({
+  key: "addressBook",
+  version: 2,
+  schema: savedAddressSchema.array(),
+  fallback: () => [],
+  migrations: {
+    // Phone numbers were not validated before version 2. Entries that no
+    // longer pass are dropped instead of discarding the whole book.
+    1: (data) =>
+      Array.isArray(data)
+        ? data.filter((entry) => savedAddressSchema.safeParse(entry).success)
+        : data,
+  },
+});
+
+export const readAddressBook = () => readPersisted(addressBookKey);
+
+export const findDefaultAddress = (addresses: SavedAddress[]) =>
+  addresses.find((address) => address.is_default) ?? addresses[0] ?? null;
+
+const isSameDetails = (a: BookingFormData, b: BookingFormData) =>
+  a.name === b.name &&
+  a.email === b.email &&
+  a.phone === b.phone &&
+  a.address === b.address &&
+  a.city === b.city &&
+  a.post_code === b.post_code;
+
+// Saves the details used for a checkout. Details that are already in the
+// book are left where they are; the first address saved becomes the default.
+export const rememberAddress = (details: BookingFormData) => {
+  const addresses = readPersisted(addressBookKey);
+  if (addresses.some((address) => isSameDetails(address.details, details))) {
+    return;
+  }
+  writePersisted(addressBookKey, [
+    ...addresses,
+    {
+      id: createId(),
+      label:
+        addresses.length === 0 ? "Home" : `Address ${addresses.length + 1}`,
+      is_default: addresses.length === 0,
+      details,
+      updated_at: new Date().toISOString(),
+    },
+  ]);
+};
+
+// Adds a new address, or replaces the label and details of an existing one
+// when `id` is given.
+export const saveAddress = ({
+  id,
+  label,
+  details,
+}: {
+  id: string | null;
+  label: string;
+  details: BookingFormData;
+}) => {
+  const addresses = readPersisted(addressBookKey);
+  const existing = id
+    ? addresses.find((address) => address.id === id)
+    : undefined;
+  const saved: SavedAddress = {
+    id: existing?.id ?? createId(),
+    label,
+    is_default: existing ? existing.is_default : addresses.length === 0,
+    details,
+    updated_at: new Date().toISOString(),
+  };
+  writePersisted(
+    addressBookKey,
+    existing
+      ? addresses.map((address) => (address.id === saved.id ? saved : address))
+      : [...addresses, saved]
+  );
+  return saved;
+};
+
+export const setDefaultAddress = (id: string) =>
+  writePersisted(
+    addressBookKey,
+    readPersisted(addressBookKey).map((address) => ({
+      ...address,
+      is_default: address.id === id,
+    }))
+  );
+
+// Removing the default hands the role to the next address, so there is
+// always one to prefill the form with.
+export const removeAddress = (id: string) => {
+  const addresses = readPersisted(addressBookKey);
+  const removed = addresses.find((address) => address.id === id);
+  const remaining = addresses.filter((address) => address.id !== id);
+  writePersisted(
+    addressBookKey,
+    removed?.is_default && remaining.length > 0
+      ? remaining.map((address, index) => ({
+          ...address,
+          is_default: index === 0,
+        }))
+      : remaining
+  );
+};
+
+export const clearAddressBook = () => removePersisted(addressBookKey);
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { isAxiosError } from "./apiServices";
+import { ApiResponseError } from "./endpoints";
+import { isCancelledError, isNetworkError } from "./retry";
+
+export interface SubmissionError {
+  message: string;
+  fieldErrors: z.ZodIssue[];
+}
+
+const validationBodySchema = z.object({
+  message: z.string().optional(),
+  errors: z.record(z.array(z.string())).optional(),
+});
+
+const messageForStatus = (status: number) => {
+  if (status === 413) {
+    return "The attachment is too large for the server. Please upload a smaller file.";
+  }
+  if (status === 429) {
+    return "Too many attempts. Please wait a moment and try again.";
+  }
+  if (status >= 500) {
+    return "Our server ran into a problem. Please try again in a few minutes.";
+  }
+  return "We could not process your payment. Please check your details and try again.";
+};
+
+// Turns whatever the booking request threw into a message for the form.
+// Laravel style 422 bodies (`{ message, errors: { field: [...] } }`) are also
+// mapped onto field issues so they show next to the matching input.
+export const describeSubmissionError = (error: unknown): SubmissionError => {
+  if (isCancelledError(error)) {
+    return { message: "Upload cancelled.", fieldErrors: [] };
+  }
+  if (isNetworkError(error)) {
+    return {
+      message:
+        "We could not reach the server. Check your connection and try again.",
+      fieldErrors: [],
+    };
+  }
+  if (error instanceof ApiResponseError) {
+    return {
+      message:
+        "The server sent an unexpected response. Please check My Booking before trying again.",
+      fieldErrors: [],
+    };
+  }
+  if (isAxiosError(error) && error.response) {
+    const { status, data } = error.response;
+    const body = validationBodySchema.safeParse(data);
+    const fieldErrors: z.ZodIssue[] = body.success
+      ? Object.entries(body.data.errors ?? {}).flatMap(([field, messages]) =>
+          messages.map((message) => ({
+            code: z.ZodIssueCode.custom,
+            path: field.split("."),
+            message,
+          }))
+        )
+      : [];
+    const message =
+      status === 422 && body.success && body.data.message
+        ? body.data.message
+        : messageForStatus(status);
+    return { message, fieldErrors };
+  }
+  return {
+    message: "Something went wrong. Please try again.",
+    fieldErrors: [],
+  };
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import {
+  definePersistedKey,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+} from "./persistence";
+
+// `/check-booking` needs the email next to the trx id. Emails already used for
+// a booking in this tab are remembered so `/my-booking/:trxId` can load
+// without asking again. Session storage keeps them out of later visits.
+const bookingEmailsKey = definePersistedKey<Record<string, string>>({
+  key: "bookingEmails",
+  version: 1,
+  schema: z.record(z.string().min(1)),
+  fallback: () => ({}),
+  storage: () => sessionStorage,
+});
+
+export const readBookingEmail = (bookingTrxId: string) =>
+  readPersisted(bookingEmailsKey)[bookingTrxId] ?? null;
+
+export const rememberBookingEmail = (bookingTrxId: string, email: string) =>
+  writePersisted(bookingEmailsKey, {
+    ...readPersisted(bookingEmailsKey),
+    [bookingTrxId]: email,
+  });
+
+export const forgetBookingEmail = (bookingTrxId: string) =>
+  writePersisted(
+    bookingEmailsKey,
+    Object.fromEntries(
+      Object.entries(readPersisted(bookingEmailsKey)).filter(
+        ([trxId]) => trxId !== bookingTrxId
+      )
+    )
+  );
+
+export const clearBookingEmails = () => removePersisted(bookingEmailsKey);
@@ -0,0 +1,87 @@
+import { BookingFormData, CheckoutSession } from "../types/type";
+import {
+  bookingFormDataSchema,
+  checkoutSessionSchema,
+} from "../types/storageSchemas";
+import { createId } from "../utils/createId";
+import {
+  definePersistedKey,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+} from "./persistence";
+
+// Checkout details are personal data, so they only live in this tab and only
+// for as long as a checkout reasonably takes. Customers who want them kept
+// longer save them to the address book instead.
+export const CHECKOUT_DATA_TTL = 2 * 60 * 60 * 1000;
+
+const checkoutStorage = () => sessionStorage;
+
+const bookingDataKey = definePersistedKey<BookingFormData | null>({
+  key: "bookingData",
+  version: 1,
+  schema: bookingFormDataSchema.nullable(),
+  fallback: () => null,
+  storage: checkoutStorage,
+  ttl: CHECKOUT_DATA_TTL,
+});
+
+// Earlier builds kept both keys in localStorage with no expiry.
+const legacyKeys = ["bookingData", "checkoutSession"];
+
+const removeLegacyCopies = () =>
+  legacyKeys.forEach((key) => localStorage.removeItem(key));
+
+export const readBookingData = () => {
+  removeLegacyCopies();
+  return readPersisted(bookingDataKey);
+};
+
+export const saveBookingData = (bookingData: BookingFormData) =>
+  writePersisted(bookingDataKey, bookingData);
+
+// Identifies one checkout attempt to the API so that a resubmitted booking is
+// recognised instead of creating a second order. Kept next to the booking data
+// and cleared with it.
+const checkoutSessionKey = definePersistedKey<CheckoutSession | null>({
+  key: "checkoutSession",
+  version: 1,
+  schema: checkoutSessionSchema.nullable(),
+  fallback: () => null,
+  storage: checkoutStorage,
+  ttl: CHECKOUT_DATA_TTL,
+});
+
+export const readCheckoutSession = () => readPersisted(checkoutSessionKey);
+
+// Reuses the stored key while the order being submitted is unchanged. A
+// different fingerprint (cart, address, payment method...) is a different
+// order and gets a fresh key.
+export const ensureCheckoutSession = (fingerprint: string) => {
+  const current = readPersisted(checkoutSessionKey);
+  if (current && current.fingerprint === fingerprint) {
+    return current;
+  }
+  const session: CheckoutSession = {
+    idempotency_key: createId(),
+    fingerprint,
+    booking_trx_id: null,
+    email: null,
+  };
+  writePersisted(checkoutSessionKey, session);
+  return session;
+};
+
+export const saveCheckoutResult = (booking_trx_id: string, email: string) => {
+  const current = readPersisted(checkoutSessionKey);
+  if (current) {
+    writePersisted(checkoutSessionKey, { ...current, booking_trx_id, email });
+  }
+};
+
+export const clearBookingData = () => {
+  removePersisted(bookingDataKey);
+  removePersisted(checkoutSessionKey);
+  removeLegacyCopies();
+};
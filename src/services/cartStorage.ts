@@ -0,0 +1,24 @@
+import { CartItem } from "../types/type";
+import { cartSchema } from "../types/storageSchemas";
+import {
+  definePersistedKey,
+  readPersisted,
+  writePersisted,
+} from "./persistence";
+
+export const CART_KEY = "cart";
+
+const cartKey = definePersistedKey<CartItem[]>({
+  key: CART_KEY,
+  version: 1,
+  schema: cartSchema,
+  fallback: () => [],
+  migrations: {
+    // Carts saved before versioning were stored as the bare array.
+    0: (data) => data,
+  },
+});
+
+export const readCart = () => readPersisted(cartKey);
+
+export const saveCart = (cart: CartItem[]) => writePersisted(cartKey, cart);
@@ -0,0 +1,90 @@
+import { Cosmetic } from "../types/type";
+import { isAxiosError } from "./apiServices";
+import { queryCache } from "./queryCache";
+import { cosmeticQuery, cosmeticsByIdsQuery, queryKeys } from "./queries";
+
+export interface CosmeticLookup {
+  cosmetic_id: number;
+  slug: string;
+}
+
+export interface CosmeticBatch<T extends CosmeticLookup> {
+  cosmetics: Map<number, Cosmetic>;
+  found: T[];
+  missing: T[];
+}
+
+const isNotFound = (error: unknown) =>
+  isAxiosError(error) && error.response?.status === 404;
+
+const fetchBySlug = async (slug: string) => {
+  const { key, fetcher } = cosmeticQuery(slug);
+  try {
+    return await queryCache.fetch(key, fetcher);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const fetchByIds = async (ids: number[]) => {
+  const { key, fetcher } = cosmeticsByIdsQuery(ids);
+  try {
+    const cosmetics = await queryCache.fetch(key, fetcher);
+    // A backend without `ids` support answers with an unfiltered list, which
+    // must not be mistaken for a complete answer.
+    if (cosmetics.some((cosmetic) => !ids.includes(cosmetic.id))) {
+      queryCache.remove(key);
+      return [];
+    }
+    return cosmetics;
+  } catch {
+    return [];
+  }
+};
+
+// Resolves every item with as few round trips as possible: fresh cache hits
+// first, then one `/cosmetics?ids=` request, then parallel `/cosmetic/:slug`
+// requests for whatever the batch did not return. Items the API no longer
+// knows about end up in `missing`.
+export const loadCosmetics = async <T extends CosmeticLookup>(
+  items: T[]
+): Promise<CosmeticBatch<T>> => {
+  const cosmetics = new Map<number, Cosmetic>();
+
+  const pending = items.filter((item) => {
+    const key = queryKeys.cosmetic(item.slug);
+    const cached = queryCache.getEntry<Cosmetic>(key).data;
+    if (cached && !queryCache.isStale(key)) {
+      cosmetics.set(item.cosmetic_id, cached);
+      return false;
+    }
+    return true;
+  });
+
+  if (pending.length > 0) {
+    const ids = [...new Set(pending.map((item) => item.cosmetic_id))];
+    const batch = await fetchByIds(ids);
+    batch.forEach((cosmetic) => cosmetics.set(cosmetic.id, cosmetic));
+
+    const unresolved = pending.filter(
+      (item) => !cosmetics.has(item.cosmetic_id)
+    );
+    const fallback = await Promise.all(
+      unresolved.map((item) => fetchBySlug(item.slug))
+    );
+    fallback.forEach((cosmetic, index) => {
+      if (cosmetic) {
+        cosmetics.set(unresolved[index].cosmetic_id, cosmetic);
+      }
+    });
+  }
+
+  return {
+    cosmetics,
+    found: items.filter((item) => cosmetics.has(item.cosmetic_id)),
+    missing: items.filter((item) => !cosmetics.has(item.cosmetic_id)),
+  };
+};
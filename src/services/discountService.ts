@@ -0,0 +1,18 @@
+import { discountRules } from "../data/discountRules";
+import { normalizeDiscountCode } from "../utils/discount";
+import { getDiscountRule } from "./endpoints";
+
+// The API is the source of truth; the bundled rules cover codes it does not
+// know about and keep codes working while it is unreachable.
+export const findDiscountRule = async (code: string) => {
+  const normalizedCode = normalizeDiscountCode(code);
+  try {
+    return await getDiscountRule(normalizedCode);
+  } catch {
+    return (
+      discountRules.find(
+        (rule) => normalizeDiscountCode(rule.code) === normalizedCode
+      ) ?? null
+    );
+  }
+};
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import {
+  definePersistedKey,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+} from "./persistence";
+
+const discountCodeKey = definePersistedKey<string | null>({
+  key: "discountCode",
+  version: 1,
+  schema: z.string().min(1).nullable(),
+  fallback: () => null,
+});
+
+export const readDiscountCode = () => readPersisted(discountCodeKey);
+
+export const saveDiscountCode = (code: string) =>
+  writePersisted(discountCodeKey, code);
+
+export const clearDiscountCode = () => removePersisted(discountCodeKey);
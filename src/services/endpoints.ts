@@ -0,0 +1,204 @@
+import { AxiosProgressEvent } from "axios";
+import { z } from "zod";
+import apiClient, { isAxiosError } from "./apiServices";
+import {
+  bookingDetailsSchema,
+  categorySchema,
+  cosmeticSchema,
+  discountRuleSchema,
+} from "../types/responseSchemas";
+
+export class ApiResponseError extends Error {
+  endpoint: string;
+  issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    const summary = issues
+      .map((issue) => `${issue.path.join(".") || "data"}: ${issue.message}`)
+      .join("; ");
+    super(`Unexpected response from ${endpoint} (${summary})`);
+    this.name = "ApiResponseError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+const parseData = <T>(
+  endpoint: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  body: unknown
+): T => {
+  const result = z.object({ data: schema }).safeParse(body);
+  if (!result.success) {
+    throw new ApiResponseError(endpoint, result.error.issues);
+  }
+  return result.data.data as T;
+};
+
+export interface CosmeticsQuery {
+  limit?: number;
+  is_popular?: boolean;
+}
+
+export interface CheckBookingPayload {
+  email: string;
+  booking_trx_id: string;
+}
+
+export const getCategories = async () => {
+  const response = await apiClient.get("/categories");
+  return parseData("/categories", z.array(categorySchema), response.data);
+};
+
+export const getCategory = async (slug: string) => {
+  const response = await apiClient.get(`/category/${slug}`);
+  return parseData(`/category/${slug}`, categorySchema, response.data);
+};
+
+export const getCosmetics = async (query: CosmeticsQuery = {}) => {
+  const response = await apiClient.get("/cosmetics", {
+    params: {
+      limit: query.limit,
+      is_popular: query.is_popular ? 1 : undefined,
+    },
+  });
+  return parseData("/cosmetics", z.array(cosmeticSchema), response.data);
+};
+
+export const getCosmeticsByIds = async (ids: number[]) => {
+  const response = await apiClient.get("/cosmetics", {
+    params: { ids: ids.join(",") },
+  });
+  return parseData("/cosmetics", z.array(cosmeticSchema), response.data);
+};
+
+export const getCosmetic = async (slug: string) => {
+  const response = await apiClient.get(`/cosmetic/${slug}`);
+  return parseData(`/cosmetic/${slug}`, cosmeticSchema, response.data);
+};
+
+export const getDiscountRule = async (code: string) => {
+  const endpoint = `/discount/${encodeURIComponent(code)}`;
+  const response = await apiClient.get(endpoint);
+  return parseData(endpoint, discountRuleSchema, response.data);
+};
+
+export interface UploadOptions {
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+  // Called with the fraction of the request body sent so far, from 0 to 1.
+  onUploadProgress?: (progress: number) => void;
+}
+
+const toProgressHandler =
+  (onUploadProgress?: (progress: number) => void) =>
+  (event: AxiosProgressEvent) => {
+    if (onUploadProgress && event.total) {
+      onUploadProgress(Math.min(1, event.loaded / event.total));
+    }
+  };
+
+export const createBookingTransaction = async (
+  submissionData: FormData,
+  { idempotencyKey, signal, onUploadProgress }: UploadOptions = {}
+) => {
+  const response = await apiClient.post(
+    "/booking-transaction",
+    submissionData,
+    {
+      headers: {
+        "Content-Type": "multipart/form-data",
+        ...(idempotencyKey && { "Idempotency-Key": idempotencyKey }),
+      },
+      signal,
+      onUploadProgress: toProgressHandler(onUploadProgress),
+    }
+  );
+  return parseData("/booking-transaction", bookingDetailsSchema, response.data);
+};
+
+export interface UpdateProofPayload extends CheckBookingPayload {
+  proof: File;
+}
+
+export const updateBookingProof = async (
+  { booking_trx_id, email, proof }: UpdateProofPayload,
+  { signal, onUploadProgress }: UploadOptions = {}
+) => {
+  const submissionData = new FormData();
+  submissionData.append("booking_trx_id", booking_trx_id);
+  submissionData.append("email", email);
+  submissionData.append("proof", proof);
+
+  const response = await apiClient.post(
+    "/booking-transaction/proof",
+    submissionData,
+    {
+      headers: {
+        "Content-Type": "multipart/form-data",
+      },
+      signal,
+      onUploadProgress: toProgressHandler(onUploadProgress),
+    }
+  );
+  return parseData(
+    "/booking-transaction/proof",
+    bookingDetailsSchema,
+    response.data
+  );
+};
+
+export interface CancelBookingPayload extends CheckBookingPayload {
+  reason: string;
+  note: string;
+}
+
+export const cancelBooking = async (payload: CancelBookingPayload) => {
+  const response = await apiClient.post("/booking-transaction/cancel", payload);
+  return parseData(
+    "/booking-transaction/cancel",
+    bookingDetailsSchema,
+    response.data
+  );
+};
+
+// Looks up a booking created with the given idempotency key, for when the
+// response to `createBookingTransaction` never arrived.
+export const findBookingTransaction = async (
+  idempotencyKey: string,
+  signal?: AbortSignal
+) => {
+  try {
+    const response = await apiClient.get(
+      `/booking-transaction/idempotency/${encodeURIComponent(idempotencyKey)}`,
+      { signal }
+    );
+    return parseData(
+      "/booking-transaction/idempotency",
+      bookingDetailsSchema.nullable(),
+      response.data
+    );
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Resolves with `null` when no booking matches the trx id and email.
+export const checkBooking = async (payload: CheckBookingPayload) => {
+  try {
+    const response = await apiClient.post("/check-booking", payload);
+    return parseData(
+      "/check-booking",
+      bookingDetailsSchema.nullable(),
+      response.data
+    );
+  } catch (error) {
+    if (isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
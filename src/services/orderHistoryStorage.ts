@@ -0,0 +1,41 @@
+import { OrderHistoryEntry } from "../types/type";
+import { orderHistoryEntrySchema } from "../types/storageSchemas";
+import {
+  definePersistedKey,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+} from "./persistence";
+
+const MAX_ORDER_HISTORY = 20;
+
+const orderHistoryKey = definePersistedKey<OrderHistoryEntry[]>({
+  key: "orderHistory",
+  version: 1,
+  schema: orderHistoryEntrySchema.array(),
+  fallback: () => [],
+});
+
+// Newest first.
+export const readOrderHistory = () => readPersisted(orderHistoryKey);
+
+export const addOrderHistoryEntry = (entry: OrderHistoryEntry) =>
+  writePersisted(
+    orderHistoryKey,
+    [
+      entry,
+      ...readPersisted(orderHistoryKey).filter(
+        (saved) => saved.booking_trx_id !== entry.booking_trx_id
+      ),
+    ].slice(0, MAX_ORDER_HISTORY)
+  );
+
+export const removeOrderHistoryEntry = (bookingTrxId: string) =>
+  writePersisted(
+    orderHistoryKey,
+    readPersisted(orderHistoryKey).filter(
+      (saved) => saved.booking_trx_id !== bookingTrxId
+    )
+  );
+
+export const clearOrderHistory = () => removePersisted(orderHistoryKey);
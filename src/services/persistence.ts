@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+type Migration = (data: unknown) => unknown;
+
+export interface PersistedKey<T> {
+  key: string;
+  version: number;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  fallback: () => T;
+  // `migrations[n]` upgrades data stored as version n to version n + 1.
+  // Values written before versioning was introduced count as version 0.
+  migrations?: Record<number, Migration>;
+  storage?: () => Storage;
+  // Milliseconds a written value stays readable. Expired values are removed
+  // on the next read.
+  ttl?: number;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+  saved_at?: number;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  typeof value === "object" &&
+  value !== null &&
+  "version" in value &&
+  typeof value.version === "number" &&
+  "data" in value;
+
+const storageOf = <T>(definition: PersistedKey<T>) =>
+  definition.storage ? definition.storage() : localStorage;
+
+export const definePersistedKey = <T>(definition: PersistedKey<T>) =>
+  definition;
+
+export const writePersisted = <T>(definition: PersistedKey<T>, value: T) => {
+  const envelope: Envelope = {
+    version: definition.version,
+    data: value,
+    saved_at: Date.now(),
+  };
+  storageOf(definition).setItem(definition.key, JSON.stringify(envelope));
+};
+
+export const removePersisted = <T>(definition: PersistedKey<T>) => {
+  storageOf(definition).removeItem(definition.key);
+};
+
+const discard = <T>(definition: PersistedKey<T>, reason: string) => {
+  console.warn(`Discarding stored "${definition.key}": ${reason}`);
+  removePersisted(definition);
+  return definition.fallback();
+};
+
+export const readPersisted = <T>(definition: PersistedKey<T>): T => {
+  const raw = storageOf(definition).getItem(definition.key);
+  if (raw === null) {
+    return definition.fallback();
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return discard(definition, "invalid JSON");
+  }
+
+  const envelope: Envelope = isEnvelope(parsed)
+    ? parsed
+    : { version: 0, data: parsed };
+  let { version, data } = envelope;
+
+  if (
+    definition.ttl !== undefined &&
+    (typeof envelope.saved_at !== "number" ||
+      Date.now() - envelope.saved_at > definition.ttl)
+  ) {
+    return discard(definition, "expired");
+  }
+
+  if (version > definition.version) {
+    // Written by a newer build; leave it alone rather than destroying it.
+    return definition.fallback();
+  }
+
+  const migrated = version < definition.version;
+  while (version < definition.version) {
+    const migration = definition.migrations?.[version];
+    if (!migration) {
+      return discard(definition, `no migration from version ${version}`);
+    }
+    try {
+      data = migration(data);
+    } catch {
+      return discard(definition, `migration from version ${version} failed`);
+    }
+    version += 1;
+  }
+
+  const result = definition.schema.safeParse(data);
+  if (!result.success) {
+    return discard(definition, result.error.issues[0]?.message ?? "invalid");
+  }
+
+  if (migrated) {
+    writePersisted(definition, result.data);
+  }
+  return result.data;
+};
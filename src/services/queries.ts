@@ -0,0 +1,57 @@
+import {
+  checkBooking,
+  CheckBookingPayload,
+  CosmeticsQuery,
+  getCategories,
+  getCategory,
+  getCosmetic,
+  getCosmetics,
+  getCosmeticsByIds,
+} from "./endpoints";
+import { QueryKey } from "./queryCache";
+
+export interface QueryDefinition<T> {
+  key: QueryKey;
+  fetcher: () => Promise<T>;
+}
+
+export const queryKeys = {
+  categories: () => ["categories"] as const,
+  category: (slug: string) => ["category", slug] as const,
+  cosmetics: (query: CosmeticsQuery = {}) => ["cosmetics", query] as const,
+  cosmetic: (slug: string) => ["cosmetic", slug] as const,
+  cosmeticsByIds: (ids: number[]) =>
+    ["cosmetics", { ids: [...ids].sort((a, b) => a - b) }] as const,
+  booking: ({ booking_trx_id, email }: CheckBookingPayload) =>
+    ["booking", booking_trx_id, email] as const,
+};
+
+export const categoriesQuery = () => ({
+  key: queryKeys.categories(),
+  fetcher: () => getCategories(),
+});
+
+export const categoryQuery = (slug: string) => ({
+  key: queryKeys.category(slug),
+  fetcher: () => getCategory(slug),
+});
+
+export const cosmeticsQuery = (query: CosmeticsQuery = {}) => ({
+  key: queryKeys.cosmetics(query),
+  fetcher: () => getCosmetics(query),
+});
+
+export const cosmeticQuery = (slug: string) => ({
+  key: queryKeys.cosmetic(slug),
+  fetcher: () => getCosmetic(slug),
+});
+
+export const cosmeticsByIdsQuery = (ids: number[]) => ({
+  key: queryKeys.cosmeticsByIds(ids),
+  fetcher: () => getCosmeticsByIds(ids),
+});
+
+export const bookingQuery = (payload: CheckBookingPayload) => ({
+  key: queryKeys.booking(payload),
+  fetcher: () => checkBooking(payload),
+});
@@ -0,0 +1,132 @@
+export type QueryKey = readonly unknown[];
+
+export interface QueryEntry<T> {
+  data: T | undefined;
+  error: Error | null;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+export interface FetchOptions {
+  staleTime?: number;
+  force?: boolean;
+}
+
+export const DEFAULT_STALE_TIME = 60 * 1000;
+
+const EMPTY_ENTRY: QueryEntry<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isFetching: false,
+};
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+export const createQueryCache = () => {
+  const entries = new Map<string, QueryEntry<unknown>>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (hash: string) => {
+    listeners.get(hash)?.forEach((listener) => listener());
+  };
+
+  const update = <T>(hash: string, patch: Partial<QueryEntry<T>>) => {
+    const current = entries.get(hash) ?? EMPTY_ENTRY;
+    entries.set(hash, { ...current, ...patch });
+    notify(hash);
+  };
+
+  const getEntry = <T>(key: QueryKey): QueryEntry<T> =>
+    (entries.get(hashQueryKey(key)) as QueryEntry<T>) ?? EMPTY_ENTRY;
+
+  const isStale = (key: QueryKey, staleTime = DEFAULT_STALE_TIME) => {
+    const entry = getEntry(key);
+    return entry.updatedAt === 0 || Date.now() - entry.updatedAt > staleTime;
+  };
+
+  const revalidate = <T>(key: QueryKey, fetcher: () => Promise<T>) => {
+    const hash = hashQueryKey(key);
+    const pending = inFlight.get(hash);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    update(hash, { isFetching: true });
+    const request = fetcher()
+      .then((data) => {
+        update<T>(hash, {
+          data,
+          error: null,
+          updatedAt: Date.now(),
+          isFetching: false,
+        });
+        return data;
+      })
+      .catch((error: Error) => {
+        update(hash, { error, isFetching: false });
+        throw error;
+      })
+      .finally(() => {
+        inFlight.delete(hash);
+      });
+
+    inFlight.set(hash, request);
+    return request;
+  };
+
+  // Resolves with cached data when there is any. Stale data is still returned
+  // straight away and refreshed in the background.
+  const fetch = async <T>(
+    key: QueryKey,
+    fetcher: () => Promise<T>,
+    { staleTime = DEFAULT_STALE_TIME, force = false }: FetchOptions = {}
+  ): Promise<T> => {
+    const entry = getEntry<T>(key);
+    if (force || entry.data === undefined) {
+      return revalidate(key, fetcher);
+    }
+    if (isStale(key, staleTime)) {
+      revalidate(key, fetcher).catch(() => undefined);
+    }
+    return entry.data;
+  };
+
+  const setData = <T>(key: QueryKey, data: T) => {
+    update<T>(hashQueryKey(key), { data, error: null, updatedAt: Date.now() });
+  };
+
+  const remove = (key: QueryKey) => {
+    const hash = hashQueryKey(key);
+    entries.delete(hash);
+    notify(hash);
+  };
+
+  const subscribe = (key: QueryKey, listener: () => void) => {
+    const hash = hashQueryKey(key);
+    const keyListeners = listeners.get(hash) ?? new Set();
+    keyListeners.add(listener);
+    listeners.set(hash, keyListeners);
+    return () => {
+      keyListeners.delete(listener);
+      if (keyListeners.size === 0) {
+        listeners.delete(hash);
+      }
+    };
+  };
+
+  return {
+    getEntry,
+    isStale,
+    fetch,
+    revalidate,
+    setData,
+    remove,
+    subscribe,
+  };
+};
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+export const queryCache = createQueryCache();
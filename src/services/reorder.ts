@@ -0,0 +1,81 @@
+import { CartItem, TransactionDetails } from "../types/type";
+import { loadCosmetics } from "./cosmeticLoader";
+
+export interface ReorderChange {
+  cosmetic_id: number;
+  name: string;
+  kind: "price_changed" | "unavailable";
+  previous_price: number;
+  current_price: number | null;
+}
+
+export interface ReorderResult {
+  items: CartItem[];
+  changes: ReorderChange[];
+}
+
+// Rebuilds cart items from a past booking, checked against the current
+// catalogue. Products that are gone are left out; both they and products
+// whose price moved since the booking are reported as changes.
+export const prepareReorder = async (
+  details: TransactionDetails[]
+): Promise<ReorderResult> => {
+  const lookups = details.map((detail) => ({
+    cosmetic_id: detail.cosmetic_id,
+    slug: detail.cosmetic.slug,
+    detail,
+  }));
+  const { cosmetics, found, missing } = await loadCosmetics(lookups);
+
+  const items = found.reduce<CartItem[]>((merged, { detail }) => {
+    const existing = merged.find(
+      (item) => item.cosmetic_id === detail.cosmetic_id
+    );
+    if (existing) {
+      existing.quantity += detail.quantity;
+      return merged;
+    }
+    const cosmetic = cosmetics.get(detail.cosmetic_id);
+    return cosmetic
+      ? [
+          ...merged,
+          {
+            cosmetic_id: cosmetic.id,
+            slug: cosmetic.slug,
+            quantity: detail.quantity,
+          },
+        ]
+      : merged;
+  }, []);
+
+  const priceChanges: ReorderChange[] = found.flatMap(({ detail }) => {
+    const cosmetic = cosmetics.get(detail.cosmetic_id);
+    return cosmetic && cosmetic.price !== detail.price
+      ? [
+          {
+            cosmetic_id: detail.cosmetic_id,
+            name: cosmetic.name,
+            kind: "price_changed" as const,
+            previous_price: detail.price,
+            current_price: cosmetic.price,
+          },
+        ]
+      : [];
+  });
+  const unavailable: ReorderChange[] = missing.map(({ detail }) => ({
+    cosmetic_id: detail.cosmetic_id,
+    name: detail.cosmetic.name,
+    kind: "unavailable",
+    previous_price: detail.price,
+    current_price: null,
+  }));
+
+  // A cosmetic can appear on several lines of one booking; report it once.
+  const changes = [...priceChanges, ...unavailable].filter(
+    (change, index, all) =>
+      all.findIndex((other) => other.cosmetic_id === change.cosmetic_id) ===
+      index
+  );
+
+  return { items, changes };
+};
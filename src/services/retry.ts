@@ -0,0 +1,61 @@
+import { isAxiosError } from "./apiServices";
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelay?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delay: number) => void;
+}
+
+// A request that never got a response (offline, DNS, dropped connection).
+// Cancelled requests are not network errors and must not be retried.
+export const isNetworkError = (error: unknown) =>
+  isAxiosError(error) && !error.response && error.code !== "ERR_CANCELED";
+
+export const isCancelledError = (error: unknown) =>
+  (isAxiosError(error) && error.code === "ERR_CANCELED") ||
+  (error instanceof DOMException && error.name === "AbortError");
+
+const wait = (delay: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Retries with exponential backoff (1s, 2s, 4s, ... by default). Aborting the
+// signal stops both the pending wait and any further attempts.
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelay = 1000,
+    signal,
+    shouldRetry = isNetworkError,
+    onRetry,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = baseDelay * 2 ** attempt;
+      onRetry?.(attempt + 1, delay);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,166 @@
+import { z } from "zod";
+import {
+  BookingDetails,
+  BookingStatusEvent,
+  Brand,
+  Category,
+  Cosmetic,
+  DiscountRule,
+  TransactionDetails,
+} from "./type";
+
+// Nested relations are only sent by the API when they are loaded, so the
+// schemas default them instead of failing the whole response.
+
+const booleanFlag = z.union([z.boolean(), z.number()]).transform(Boolean);
+
+const benefitSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
+const photoSchema = z.object({
+  id: z.number(),
+  photo: z.string(),
+});
+
+const testimonialSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  rating: z.coerce.string(),
+  message: z.string(),
+  photo: z.string(),
+});
+
+export const cosmeticSchema: z.ZodType<Cosmetic, z.ZodTypeDef, unknown> =
+  z.lazy(() =>
+    z.object({
+      id: z.number(),
+      price: z.coerce.number(),
+      duration: z.coerce.number().default(0),
+      name: z.string(),
+      slug: z.string(),
+      is_popular: booleanFlag.default(false),
+      category: categorySchema.nullable().default(null),
+      brand: brandSchema.nullable().default(null),
+      thumbnail: z.string(),
+      benefits: z.array(benefitSchema).default([]),
+      photos: z.array(photoSchema).default([]),
+      testimonials: z.array(testimonialSchema).default([]),
+      about: z.string().default(""),
+    })
+  );
+
+export const categorySchema: z.ZodType<Category, z.ZodTypeDef, unknown> =
+  z.lazy(() =>
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      slug: z.string(),
+      photo: z.string().default(""),
+      cosmetics_count: z.coerce.number().default(0),
+      cosmetics: z.array(cosmeticSchema).default([]),
+      popular_cosmetic: z.array(cosmeticSchema).default([]),
+    })
+  );
+
+export const brandSchema: z.ZodType<Brand, z.ZodTypeDef, unknown> = z.lazy(
+  () =>
+    z.object({
+      id: z.number(),
+      name: z.string(),
+      slug: z.string(),
+      photo: z.string().default(""),
+      cosmetics_count: z.coerce.number().default(0),
+      cosmetics: z.array(cosmeticSchema).default([]),
+      popular_cosmetic: z.array(cosmeticSchema).default([]),
+    })
+);
+
+export const transactionDetailsSchema: z.ZodType<
+  TransactionDetails,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  id: z.number(),
+  price: z.coerce.number(),
+  cosmetic_id: z.number(),
+  quantity: z.coerce.number(),
+  cosmetic: cosmeticSchema,
+});
+
+export const bookingStatusSchema = z.enum([
+  "created",
+  "proof_uploaded",
+  "verified",
+  "rejected",
+  "packed",
+  "shipped",
+  "delivered",
+  "cancelled",
+]);
+
+const bookingStatusEventSchema: z.ZodType<
+  BookingStatusEvent,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  status: bookingStatusSchema,
+  created_at: z.string(),
+  note: z.string().nullable().default(null),
+});
+
+export const bookingDetailsSchema: z.ZodType<
+  BookingDetails,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    phone: z.string(),
+    email: z.string(),
+    proof: z.string().nullable().default(null),
+    address: z.string(),
+    post_code: z.coerce.string(),
+    city: z.string(),
+    booking_trx_id: z.string(),
+    quantity: z.coerce.number(),
+    is_paid: booleanFlag,
+    sub_total_amount: z.coerce.number(),
+    total_tax_amount: z.coerce.number(),
+    total_amount: z.coerce.number(),
+    discount_code: z.string().nullable().default(null),
+    discount_amount: z.coerce.number().default(0),
+    delivery_fee: z.coerce.number().default(0),
+    transaction_details: z.array(transactionDetailsSchema).default([]),
+    status: bookingStatusSchema.optional(),
+    status_history: z.array(bookingStatusEventSchema).default([]),
+  })
+  // Bookings from before the status model only carry `is_paid` and `proof`.
+  .transform(({ status, ...booking }) => ({
+    ...booking,
+    status:
+      status ??
+      (booking.is_paid
+        ? ("verified" as const)
+        : booking.proof
+          ? ("proof_uploaded" as const)
+          : ("created" as const)),
+  }));
+
+export const discountRuleSchema: z.ZodType<
+  DiscountRule,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  code: z.string(),
+  type: z.enum(["percentage", "fixed"]),
+  value: z.coerce.number().nonnegative(),
+  min_spend: z.coerce.number().default(0),
+  max_discount: z.coerce.number().nullable().default(null),
+  brand_slugs: z.array(z.string()).default([]),
+  category_slugs: z.array(z.string()).default([]),
+  starts_at: z.string().nullable().default(null),
+  expires_at: z.string().nullable().default(null),
+});
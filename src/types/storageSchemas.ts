@@ -0,0 +1,60 @@
+import { z } from "zod";
+import {
+  BookingFormData,
+  CartItem,
+  CheckoutSession,
+  OrderHistoryEntry,
+  SavedAddress,
+} from "./type";
+import { bookingSchema } from "./validationBooking";
+
+export const cartItemSchema: z.ZodType<CartItem, z.ZodTypeDef, unknown> =
+  z.object({
+    cosmetic_id: z.number().int().positive(),
+    slug: z.string().min(1),
+    quantity: z.number().int().min(1),
+  });
+
+export const cartSchema = z.array(cartItemSchema);
+
+export const bookingFormDataSchema: z.ZodType<
+  BookingFormData,
+  z.ZodTypeDef,
+  unknown
+> = bookingSchema;
+
+export const checkoutSessionSchema: z.ZodType<
+  CheckoutSession,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  idempotency_key: z.string().min(1),
+  fingerprint: z.string(),
+  booking_trx_id: z.string().min(1).nullable(),
+  email: z.string().nullable(),
+});
+
+export const orderHistoryEntrySchema: z.ZodType<
+  OrderHistoryEntry,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  booking_trx_id: z.string().min(1),
+  email: z.string().min(1),
+  total_amount: z.number(),
+  quantity: z.number().int(),
+  thumbnails: z.array(z.string()),
+  created_at: z.string(),
+});
+
+export const savedAddressSchema: z.ZodType<
+  SavedAddress,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  is_default: z.boolean(),
+  details: bookingSchema,
+  updated_at: z.string(),
+});
@@ -22,8 +22,8 @@ export interface Cosmetic {
   name: string;
   slug: string;
   is_popular: boolean;
-  category: Category;
-  brand: Brand;
+  category: Category | null;
+  brand: Brand | null;
   thumbnail: string;
   benefits: Benefit[];
   photos: Photo[];
@@ -51,6 +51,22 @@ export interface Brand {
   popular_cosmetic: Cosmetic[];
 }
 
+export type BookingStatus =
+  | "created"
+  | "proof_uploaded"
+  | "verified"
+  | "rejected"
+  | "packed"
+  | "shipped"
+  | "delivered"
+  | "cancelled";
+
+export interface BookingStatusEvent {
+  status: BookingStatus;
+  created_at: string;
+  note: string | null;
+}
+
 export interface BookingDetails {
   id: number;
   name: string;
@@ -63,13 +79,18 @@ export interface BookingDetails {
   booking_trx_id: string;
   quantity: number;
   is_paid: boolean;
+  status: BookingStatus;
+  status_history: BookingStatusEvent[];
   sub_total_amount: number;
   total_tax_amount: number;
   total_amount: number;
+  discount_code: string | null;
+  discount_amount: number;
+  delivery_fee: number;
   transaction_details: TransactionDetails[];
 }
 
-interface TransactionDetails {
+export interface TransactionDetails {
   id: number;
   price: number;
   cosmetic_id: number;
@@ -91,3 +112,79 @@ export interface BookingFormData {
   address: string;
   city: string;
 }
+
+export interface SavedAddress {
+  id: string;
+  label: string;
+  is_default: boolean;
+  details: BookingFormData;
+  updated_at: string;
+}
+
+export interface CartLine {
+  cosmetic: Cosmetic;
+  quantity: number;
+}
+
+export type DiscountType = "percentage" | "fixed";
+
+export interface DiscountRule {
+  code: string;
+  type: DiscountType;
+  value: number;
+  min_spend: number;
+  max_discount: number | null;
+  brand_slugs: string[];
+  category_slugs: string[];
+  starts_at: string | null;
+  expires_at: string | null;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  post_code_prefixes: [number, number][];
+  cities: string[];
+  base_fee: number;
+  per_kg_fee: number;
+  free_shipping_min: number | null;
+}
+
+export interface ShippingPromo {
+  name: string;
+  zone_ids: string[];
+  fee: number;
+  min_order: number;
+  starts_at: string | null;
+  expires_at: string | null;
+}
+
+export type PaymentMethodGroup = "e_wallet" | "bank_transfer" | "cod";
+
+export interface PaymentMethod {
+  id: string;
+  group: PaymentMethodGroup;
+  name: string;
+  logo: string;
+  account_number: string | null;
+  account_name: string | null;
+  instructions: string[];
+  enabled: boolean;
+  status_label: string;
+}
+
+export interface CheckoutSession {
+  idempotency_key: string;
+  fingerprint: string;
+  booking_trx_id: string | null;
+  email: string | null;
+}
+
+export interface OrderHistoryEntry {
+  booking_trx_id: string;
+  email: string;
+  total_amount: number;
+  quantity: number;
+  thumbnails: string[];
+  created_at: string;
+}
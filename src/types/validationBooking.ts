@@ -1,21 +1,86 @@
 import { z } from "zod";
+import { OTHER_CANCELLATION_REASON } from "../data/cancellationReasons";
+import {
+  formatFileSize,
+  isAcceptedProofType,
+  MAX_PROOF_SIZE,
+} from "../utils/proofFile";
+import { parseIndonesianPhone, PhoneIssue } from "../utils/phone";
+
+const phoneIssueMessages: Record<PhoneIssue, string> = {
+  required: "Phone number is required",
+  invalid_characters: "Phone number can only contain digits, spaces and dashes",
+  not_indonesian: "Use an Indonesian number starting with +62",
+  not_mobile: "Enter a mobile number starting with 08 or +62 8",
+  too_short: "Phone number is too short",
+  too_long: "Phone number is too long",
+};
 
 export const bookingSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Invalid Email"),
-  phone: z.string().min(1, "Phone number is required"),
+  // Stored and submitted in E.164 (+628…) whatever format was typed.
+  phone: z.string().transform((value, ctx) => {
+    const result = parseIndonesianPhone(value);
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: phoneIssueMessages[result.issue],
+      });
+      return z.NEVER;
+    }
+    return result.e164;
+  }),
   post_code: z.string().min(1, "Post code is required"),
   address: z.string().min(1, "Address is required"),
   city: z.string().min(1, "City is required"),
 });
 
+export const savedAddressFormSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, "Label is required")
+    .max(30, "Keep the label under 30 characters"),
+  details: bookingSchema,
+});
+
 export const paymentSchema = z.object({
   proof: z
     .instanceof(File)
-    .refine((file) => file.size > 0, "Proof of payment is required"),
+    .refine((file) => file.size > 0, "Proof of payment is required")
+    .refine(
+      (file) => isAcceptedProofType(file.type),
+      "Proof of payment must be a JPG, PNG, WEBP or PDF file"
+    )
+    .refine(
+      (file) => file.size <= MAX_PROOF_SIZE,
+      `Proof of payment must be ${formatFileSize(MAX_PROOF_SIZE)} or smaller`
+    ),
+  payment_method: z
+    .string({
+      required_error: "Please choose a payment method",
+      invalid_type_error: "Please choose a payment method",
+    })
+    .min(1, "Please choose a payment method"),
 });
 
+// For uploading or replacing the proof of an existing booking.
+export const proofSchema = paymentSchema.pick({ proof: true });
+
 export const viewBookingSchema = z.object({
   booking_trx_id: z.string().min(1, "Booking TRX is required"),
   email: z.string().min(1, "Email is required"),
 });
+
+export const cancelBookingSchema = z
+  .object({
+    reason: z
+      .string({ required_error: "Please choose a reason" })
+      .min(1, "Please choose a reason"),
+    note: z.string().trim().max(500, "Keep the note under 500 characters"),
+  })
+  .refine(
+    (data) => data.reason !== OTHER_CANCELLATION_REASON || data.note.length > 0,
+    { message: "Please tell us why you are cancelling", path: ["note"] }
+  );
@@ -0,0 +1,183 @@
+import {
+  BookingDetails,
+  BookingStatus,
+  BookingStatusEvent,
+} from "../types/type";
+
+export type TimelineStepState = "done" | "current" | "upcoming" | "failed";
+
+export interface TimelineStep {
+  status: BookingStatus;
+  title: string;
+  description: string;
+  iconSrc: string;
+  state: TimelineStepState;
+  timestamp: string | null;
+  note: string | null;
+}
+
+interface StepCopy {
+  title: string;
+  description: string;
+  iconSrc: string;
+}
+
+export const bookingStatusCopy: Record<BookingStatus, StepCopy> = {
+  created: {
+    title: "Booking Created",
+    description: "Pesanan sudah kami terima",
+    iconSrc: "/assets/images/icons/guarantee.svg",
+  },
+  proof_uploaded: {
+    title: "Verifying Payment",
+    description: "Sedang mastiin uang masuk",
+    iconSrc: "/assets/images/icons/banktf.svg",
+  },
+  verified: {
+    title: "Payment Verified",
+    description: "Pembayaran sudah kami terima",
+    iconSrc: "/assets/images/icons/banktf.svg",
+  },
+  rejected: {
+    title: "Payment Rejected",
+    description:
+      "Bukti pembayaran tidak dapat diverifikasi. Silahkan upload ulang bukti transfer yang jelas sesuai grand total.",
+    iconSrc: "/assets/images/icons/information.svg",
+  },
+  packed: {
+    title: "Packing Order",
+    description: "Produk sedang dikemas",
+    iconSrc: "/assets/images/icons/list.svg",
+  },
+  shipped: {
+    title: "Shipping Now",
+    description: "Produk sedang diantarkan",
+    iconSrc: "/assets/images/icons/shippingto.svg",
+  },
+  delivered: {
+    title: "Delivered",
+    description: "Produk sudah sampai tujuan",
+    iconSrc: "/assets/images/icons/location.svg",
+  },
+  cancelled: {
+    title: "Order Cancelled",
+    description: "Pesanan ini sudah dibatalkan",
+    iconSrc: "/assets/images/icons/information.svg",
+  },
+};
+
+// The order a successful booking moves through. `rejected` and `cancelled`
+// branch off it.
+const HAPPY_PATH: BookingStatus[] = [
+  "created",
+  "proof_uploaded",
+  "verified",
+  "packed",
+  "shipped",
+  "delivered",
+];
+
+const PAID_STATUSES: BookingStatus[] = [
+  "verified",
+  "packed",
+  "shipped",
+  "delivered",
+];
+
+export const isBookingPaid = (status: BookingStatus) =>
+  PAID_STATUSES.includes(status);
+
+// Proof can be sent or replaced until the payment has been verified.
+export const canUpdateProof = (status: BookingStatus) =>
+  status === "created" || status === "proof_uploaded" || status === "rejected";
+
+// Once the parcel has left the warehouse the order can no longer be stopped.
+export const canCancelBooking = (status: BookingStatus) =>
+  status !== "shipped" && status !== "delivered" && status !== "cancelled";
+
+// Delivered and cancelled bookings will not change any more.
+export const isBookingActive = (status: BookingStatus) =>
+  status !== "delivered" && status !== "cancelled";
+
+const latestEvent = (booking: BookingDetails, status: BookingStatus) =>
+  booking.status_history.reduce<BookingStatusEvent | null>(
+    (latest, event) =>
+      event.status === status &&
+      (!latest || Date.parse(event.created_at) >= Date.parse(latest.created_at))
+        ? event
+        : latest,
+    null
+  );
+
+const toStep = (
+  booking: BookingDetails,
+  status: BookingStatus,
+  state: TimelineStepState
+): TimelineStep => {
+  const event = state === "upcoming" ? null : latestEvent(booking, status);
+  return {
+    status,
+    ...bookingStatusCopy[status],
+    state,
+    timestamp: event?.created_at ?? null,
+    note: event?.note ?? null,
+  };
+};
+
+// The furthest happy-path step reached before the booking was rejected or
+// cancelled, judged from its history.
+const lastReachedIndex = (booking: BookingDetails) =>
+  booking.status_history.reduce(
+    (furthest, event) => Math.max(furthest, HAPPY_PATH.indexOf(event.status)),
+    0
+  );
+
+export const buildStatusTimeline = (
+  booking: BookingDetails
+): TimelineStep[] => {
+  const { status } = booking;
+
+  if (status === "cancelled") {
+    return [
+      ...HAPPY_PATH.slice(0, lastReachedIndex(booking) + 1).map((reached) =>
+        toStep(booking, reached, "done")
+      ),
+      toStep(booking, "cancelled", "failed"),
+    ];
+  }
+
+  if (status === "rejected") {
+    // A rejected proof sits where payment verification would be; the
+    // customer has to upload again before anything else can happen.
+    return [
+      toStep(booking, "created", "done"),
+      toStep(booking, "proof_uploaded", "done"),
+      toStep(booking, "rejected", "failed"),
+      ...HAPPY_PATH.slice(HAPPY_PATH.indexOf("verified")).map((next) =>
+        toStep(booking, next, "upcoming")
+      ),
+    ];
+  }
+
+  const currentIndex = HAPPY_PATH.indexOf(status);
+  return HAPPY_PATH.map((step, index) =>
+    toStep(
+      booking,
+      step,
+      index < currentIndex || status === "delivered"
+        ? "done"
+        : index === currentIndex
+          ? "current"
+          : "upcoming"
+    )
+  );
+};
+
+export const formatStatusTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
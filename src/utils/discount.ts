@@ -0,0 +1,73 @@
+import { CartLine, DiscountRule } from "../types/type";
+import { formatCurrency } from "./formatCurrency";
+
+export type DiscountEvaluation =
+  | { ok: true; amount: number; eligibleSubtotal: number }
+  | { ok: false; error: string };
+
+export const normalizeDiscountCode = (code: string) =>
+  code.trim().toUpperCase();
+
+// A cosmetic loaded without its brand or category cannot be matched against a
+// rule restricted to one, so it is treated as not eligible.
+const isEligible = (rule: DiscountRule, line: CartLine) => {
+  const { brand, category } = line.cosmetic;
+  const brandMatches =
+    rule.brand_slugs.length === 0 ||
+    (brand !== null && rule.brand_slugs.includes(brand.slug));
+  const categoryMatches =
+    rule.category_slugs.length === 0 ||
+    (category !== null && rule.category_slugs.includes(category.slug));
+  return brandMatches && categoryMatches;
+};
+
+export const evaluateDiscount = (
+  rule: DiscountRule,
+  lines: CartLine[],
+  now = new Date()
+): DiscountEvaluation => {
+  if (rule.starts_at && now.getTime() < Date.parse(rule.starts_at)) {
+    return { ok: false, error: "This discount code is not active yet" };
+  }
+  if (rule.expires_at && now.getTime() >= Date.parse(rule.expires_at)) {
+    return { ok: false, error: "This discount code has expired" };
+  }
+
+  const subtotal = lines.reduce(
+    (acc, line) => acc + line.cosmetic.price * line.quantity,
+    0
+  );
+  if (subtotal < rule.min_spend) {
+    return {
+      ok: false,
+      error: `Minimum spend for this code is ${formatCurrency(
+        rule.min_spend
+      )}`,
+    };
+  }
+
+  const eligibleSubtotal = lines
+    .filter((line) => isEligible(rule, line))
+    .reduce((acc, line) => acc + line.cosmetic.price * line.quantity, 0);
+  if (eligibleSubtotal === 0) {
+    return {
+      ok: false,
+      error: "This discount code does not apply to the items in your cart",
+    };
+  }
+
+  const rawAmount =
+    rule.type === "percentage"
+      ? Math.floor((eligibleSubtotal * rule.value) / 100)
+      : rule.value;
+  const cappedAmount =
+    rule.max_discount === null
+      ? rawAmount
+      : Math.min(rawAmount, rule.max_discount);
+
+  return {
+    ok: true,
+    amount: Math.min(cappedAmount, eligibleSubtotal),
+    eligibleSubtotal,
+  };
+};
@@ -0,0 +1,150 @@
+import { BookingDetails } from "../types/type";
+import { bookingStatusCopy, isBookingPaid } from "./bookingStatus";
+import { formatCurrency } from "./formatCurrency";
+import { formatTaxRate, getBookingTotals } from "./pricing";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const INVOICE_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px; font-family: Poppins, Arial, sans-serif; color: #0C0422; font-size: 14px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  .muted { color: #8C8582; }
+  .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 24px; }
+  .status { display: inline-block; padding: 4px 10px; border-radius: 999px; font-weight: 600; font-size: 12px; }
+  .status.paid { background: #099954; color: #FFFFFF; }
+  .status.unpaid { background: #FF9D2A; color: #0C0422; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { padding: 8px 0; text-align: left; border-bottom: 1px solid #E0E0EC; }
+  th.amount, td.amount { text-align: right; }
+  .totals td { border: none; padding: 4px 0; }
+  .grand td { font-size: 16px; font-weight: 700; border-top: 2px solid #0C0422; padding-top: 8px; }
+  @page { margin: 16mm; }
+`;
+
+export const invoiceFileName = (booking: BookingDetails) =>
+  `invoice-${booking.booking_trx_id}`;
+
+// A self-contained HTML document, so it prints the same wherever it is
+// rendered and can be saved as PDF from the browser's print dialog.
+export const buildInvoiceHtml = (
+  booking: BookingDetails,
+  issuedAt = new Date()
+) => {
+  // Printed for reimbursement and disputes, so only what the server charged.
+  const pricing = getBookingTotals(booking);
+  const paid = isBookingPaid(booking.status);
+  const statusLabel = paid
+    ? "PAID"
+    : bookingStatusCopy[booking.status].title.toUpperCase();
+
+  const rows = booking.transaction_details
+    .map(
+      (detail) => `
+        <tr>
+          <td>${escapeHtml(detail.cosmetic.name)}</td>
+          <td class="amount">${detail.quantity}</td>
+          <td class="amount">${formatCurrency(detail.price)}</td>
+          <td class="amount">${formatCurrency(detail.price * detail.quantity)}</td>
+        </tr>`
+    )
+    .join("");
+
+  const totalRow = (label: string, amount: string) => `
+    <tr><td colspan="3">${label}</td><td class="amount">${amount}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="id">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(invoiceFileName(booking))}</title>
+    <style>${INVOICE_STYLES}</style>
+  </head>
+  <body>
+    <div class="header">
+      <div>
+        <h1>Invoice</h1>
+        <div class="muted">Shayna Beauty</div>
+      </div>
+      <div>
+        <div><strong>${escapeHtml(booking.booking_trx_id)}</strong></div>
+        <div class="muted">Issued ${issuedAt.toLocaleDateString("id-ID")}</div>
+        <div class="status ${paid ? "paid" : "unpaid"}">${statusLabel}</div>
+      </div>
+    </div>
+    <div class="header">
+      <div>
+        <div class="muted">Billed to</div>
+        <div><strong>${escapeHtml(booking.name)}</strong></div>
+        <div>${escapeHtml(booking.email)}</div>
+        <div>${escapeHtml(booking.phone)}</div>
+      </div>
+      <div>
+        <div class="muted">Ship to</div>
+        <div>${escapeHtml(booking.address)}</div>
+        <div>${escapeHtml(booking.city)} ${escapeHtml(booking.post_code)}</div>
+      </div>
+    </div>
+    <table>
+      <thead>
+        <tr>
+          <th>Product</th>
+          <th class="amount">Qty</th>
+          <th class="amount">Price</th>
+          <th class="amount">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${rows}</tbody>
+    </table>
+    <table class="totals">
+      ${totalRow("Sub Total", formatCurrency(pricing.subtotal))}
+      ${
+        pricing.discount > 0
+          ? totalRow(
+              `Discount${booking.discount_code ? ` (${escapeHtml(booking.discount_code)})` : ""}`,
+              `- ${formatCurrency(pricing.discount)}`
+            )
+          : ""
+      }
+      ${totalRow(`Tax ${formatTaxRate(pricing.taxRate)}`, formatCurrency(pricing.tax))}
+      ${
+        pricing.deliveryFee > 0
+          ? totalRow("Delivery Fee", formatCurrency(pricing.deliveryFee))
+          : ""
+      }
+      <tr class="grand"><td colspan="3">Grand Total</td><td class="amount">${formatCurrency(pricing.grandTotal)}</td></tr>
+    </table>
+  </body>
+</html>`;
+};
+
+// Prints from a hidden iframe rather than a new window, which popup blockers
+// would stop.
+export const printInvoice = (booking: BookingDetails) => {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      frame.remove();
+      return;
+    }
+    frameWindow.addEventListener("afterprint", () => frame.remove(), {
+      once: true,
+    });
+    frameWindow.focus();
+    frameWindow.print();
+  };
+  frame.srcdoc = buildInvoiceHtml(booking);
+  document.body.appendChild(frame);
+};
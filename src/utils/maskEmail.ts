@@ -0,0 +1,14 @@
+// Keeps just enough of the address for customers to recognise it:
+// "jane.doe@gmail.com" becomes "j******e@gmail.com".
+export const maskEmail = (email: string) => {
+  const at = email.lastIndexOf("@");
+  if (at < 1) {
+    return "*".repeat(email.length);
+  }
+  const local = email.slice(0, at);
+  const masked =
+    local.length <= 2
+      ? `${local[0]}${"*".repeat(local.length - 1)}`
+      : `${local[0]}${"*".repeat(local.length - 2)}${local[local.length - 1]}`;
+  return `${masked}${email.slice(at)}`;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { formatPhoneInput, parseIndonesianPhone } from "./phone";
+
+const E164 = "+6281234567890";
+
+describe("parseIndonesianPhone", () => {
+  it.each([
+    ["081234567890"],
+    ["0812-3456-7890"],
+    ["6281234567890"],
+    ["+6281234567890"],
+    ["+62 812-3456-7890"],
+    ["+62 0812 3456 7890"],
+    ["(+62) 812.3456.7890"],
+    ["81234567890"],
+  ])("normalizes %s to E.164", (value) => {
+    expect(parseIndonesianPhone(value)).toEqual({
+      success: true,
+      e164: E164,
+    });
+  });
+
+  it("accepts the shortest and longest mobile numbers", () => {
+    expect(parseIndonesianPhone("0812345678")).toEqual({
+      success: true,
+      e164: "+62812345678",
+    });
+    expect(parseIndonesianPhone("0812345678901")).toEqual({
+      success: true,
+      e164: "+62812345678901",
+    });
+  });
+
+  it.each([
+    ["", "required"],
+    ["   ", "required"],
+    ["abc", "invalid_characters"],
+    ["0812-abcd-7890", "invalid_characters"],
+    ["0812+34567890", "invalid_characters"],
+    ["+1 555 123 4567", "not_indonesian"],
+    ["+6581234567", "not_indonesian"],
+    ["0215551234", "not_mobile"],
+    ["+62 21 5551234", "not_mobile"],
+    ["08123456", "too_short"],
+    ["+62 812", "too_short"],
+    ["08123456789012", "too_long"],
+  ])("rejects %j as %s", (value, issue) => {
+    expect(parseIndonesianPhone(value)).toEqual({ success: false, issue });
+  });
+});
+
+describe("formatPhoneInput", () => {
+  it.each([
+    ["081234567890", "0812-3456-7890"],
+    ["6281234567890", "+62 812-3456-7890"],
+    ["+6281234567890", "+62 812-3456-7890"],
+    ["+62 0812 3456 7890", "+62 812-3456-7890"],
+    ["81234567890", "812-3456-7890"],
+  ])("masks %s as %s", (value, masked) => {
+    expect(formatPhoneInput(value)).toBe(masked);
+  });
+
+  it("masks partial input as it is typed", () => {
+    expect(formatPhoneInput("0")).toBe("0");
+    expect(formatPhoneInput("0812")).toBe("0812");
+    expect(formatPhoneInput("08123")).toBe("0812-3");
+    expect(formatPhoneInput("+")).toBe("+");
+    expect(formatPhoneInput("+62")).toBe("+62");
+    expect(formatPhoneInput("+62 8")).toBe("+62 8");
+  });
+
+  it("drops letters and stops at the longest mobile number", () => {
+    expect(formatPhoneInput("0812abc3456")).toBe("0812-3456");
+    expect(formatPhoneInput("0812345678901234")).toBe("0812-3456-78901");
+  });
+
+  it("is stable when applied to its own output", () => {
+    for (const value of ["081234567890", "+62 0812 3456 7890", "62812"]) {
+      const masked = formatPhoneInput(value);
+      expect(formatPhoneInput(masked)).toBe(masked);
+    }
+  });
+
+  it.each([
+    ["081234567890"],
+    ["6281234567890"],
+    ["+62 0812 3456 7890"],
+    ["(+62) 812.3456.7890"],
+  ])("keeps %s parsing to the same number once masked", (value) => {
+    expect(parseIndonesianPhone(formatPhoneInput(value))).toEqual(
+      parseIndonesianPhone(value)
+    );
+  });
+
+  it("masks an E.164 number back into a valid display value", () => {
+    expect(parseIndonesianPhone(formatPhoneInput(E164))).toEqual({
+      success: true,
+      e164: E164,
+    });
+  });
+});
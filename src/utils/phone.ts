@@ -0,0 +1,85 @@
+// Indonesian mobile numbers are 08xx followed by 6 to 9 more digits, which
+// leaves 9 to 12 digits once the trunk "0" or the "+62" country code is
+// dropped.
+const MIN_NATIONAL_LENGTH = 9;
+const MAX_NATIONAL_LENGTH = 12;
+const COUNTRY_CODE = "62";
+
+export type PhoneIssue =
+  | "required"
+  | "invalid_characters"
+  | "not_indonesian"
+  | "not_mobile"
+  | "too_short"
+  | "too_long";
+
+export type PhoneParseResult =
+  { success: true; e164: string } | { success: false; issue: PhoneIssue };
+
+// Customers often keep the trunk "0" after the country code (+62 0812…).
+const stripTrunkPrefix = (national: string) => national.replace(/^0/, "");
+
+// Accepts the formats customers actually type (08…, 628…, +62 8…, +62 08…,
+// with spaces, dashes, dots or brackets) and returns the E.164 form.
+export const parseIndonesianPhone = (value: string): PhoneParseResult => {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    return { success: false, issue: "required" };
+  }
+  if (!/^\(?\+?[\d\s\-.()]+$/.test(trimmed)) {
+    return { success: false, issue: "invalid_characters" };
+  }
+
+  const digits = trimmed.replace(/\D/g, "");
+  let national: string;
+  if (/^\(?\+/.test(trimmed)) {
+    if (!digits.startsWith(COUNTRY_CODE)) {
+      return { success: false, issue: "not_indonesian" };
+    }
+    national = stripTrunkPrefix(digits.slice(COUNTRY_CODE.length));
+  } else if (digits.startsWith(COUNTRY_CODE)) {
+    national = stripTrunkPrefix(digits.slice(COUNTRY_CODE.length));
+  } else if (digits.startsWith("0")) {
+    national = digits.slice(1);
+  } else {
+    national = digits;
+  }
+
+  if (!national.startsWith("8")) {
+    return { success: false, issue: "not_mobile" };
+  }
+  if (national.length < MIN_NATIONAL_LENGTH) {
+    return { success: false, issue: "too_short" };
+  }
+  if (national.length > MAX_NATIONAL_LENGTH) {
+    return { success: false, issue: "too_long" };
+  }
+  return { success: true, e164: `+${COUNTRY_CODE}${national}` };
+};
+
+const groupNational = (national: string) =>
+  [national.slice(0, 3), national.slice(3, 7), national.slice(7)]
+    .filter(Boolean)
+    .join("-");
+
+// Input mask for the phone field: keeps the prefix the customer started
+// with and groups the rest as 812-3456-7890. Anything but digits and a
+// leading "+" is dropped, and the result is still accepted by
+// `parseIndonesianPhone`.
+export const formatPhoneInput = (value: string) => {
+  const digits = value.replace(/\D/g, "");
+  if (value.trimStart().startsWith("+") || digits.startsWith(COUNTRY_CODE)) {
+    const countryCode = digits.slice(0, COUNTRY_CODE.length);
+    const rest = digits.slice(COUNTRY_CODE.length);
+    const national = (
+      countryCode === COUNTRY_CODE ? stripTrunkPrefix(rest) : rest
+    ).slice(0, MAX_NATIONAL_LENGTH);
+    return national
+      ? `+${countryCode} ${groupNational(national)}`
+      : `+${countryCode}`;
+  }
+  if (digits.startsWith("0")) {
+    return `0${groupNational(digits.slice(1, 1 + MAX_NATIONAL_LENGTH))}`;
+  }
+  return groupNational(digits.slice(0, MAX_NATIONAL_LENGTH));
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculatePricing,
+  formatTaxRate,
+  getBookingTotals,
+  TAX_RATE,
+} from "./pricing";
+import { BookingDetails, TransactionDetails } from "../types/type";
+
+const makeDetail = (
+  id: number,
+  price: number,
+  quantity: number
+): TransactionDetails => ({
+  id,
+  price,
+  cosmetic_id: id,
+  quantity,
+  cosmetic: {
+    id,
+    price,
+    duration: 0,
+    name: `Cosmetic ${id}`,
+    slug: `cosmetic-${id}`,
+    is_popular: false,
+    category: null,
+    brand: null,
+    thumbnail: "",
+    benefits: [],
+    photos: [],
+    testimonials: [],
+    about: "",
+  },
+});
+
+const makeBooking = (overrides: Partial<BookingDetails>): BookingDetails => ({
+  id: 1,
+  name: "Jane Doe",
+  phone: "+6281234567890",
+  email: "jane@example.com",
+  proof: null,
+  address: "Jl. Sudirman 1",
+  post_code: "10220",
+  city: "Jakarta",
+  booking_trx_id: "SHAYNA123",
+  quantity: 0,
+  is_paid: false,
+  status: "created",
+  status_history: [],
+  sub_total_amount: 0,
+  total_tax_amount: 0,
+  total_amount: 0,
+  discount_code: null,
+  discount_amount: 0,
+  delivery_fee: 0,
+  transaction_details: [],
+  ...overrides,
+});
+
+describe("calculatePricing", () => {
+  it("returns zeros for an empty cart", () => {
+    expect(calculatePricing([])).toEqual({
+      totalQuantity: 0,
+      subtotal: 0,
+      discount: 0,
+      taxableAmount: 0,
+      taxRate: TAX_RATE,
+      tax: 0,
+      deliveryFee: 0,
+      insuranceFee: 0,
+      rounding: 0,
+      grandTotal: 0,
+    });
+  });
+
+  it("adds 11% tax on the subtotal", () => {
+    const pricing = calculatePricing([
+      { price: 100000, quantity: 2 },
+      { price: 50000, quantity: 1 },
+    ]);
+
+    expect(pricing.totalQuantity).toBe(3);
+    expect(pricing.subtotal).toBe(250000);
+    expect(pricing.tax).toBe(27500);
+    expect(pricing.grandTotal).toBe(277500);
+  });
+
+  it("taxes the subtotal after the discount", () => {
+    const pricing = calculatePricing([{ price: 200000, quantity: 1 }], {
+      discount: 50000,
+    });
+
+    expect(pricing.discount).toBe(50000);
+    expect(pricing.taxableAmount).toBe(150000);
+    expect(pricing.tax).toBe(16500);
+    expect(pricing.grandTotal).toBe(166500);
+  });
+
+  it("never discounts more than the subtotal", () => {
+    const pricing = calculatePricing([{ price: 20000, quantity: 1 }], {
+      discount: 50000,
+    });
+
+    expect(pricing.discount).toBe(20000);
+    expect(pricing.tax).toBe(0);
+    expect(pricing.grandTotal).toBe(0);
+  });
+
+  it("ignores negative discounts", () => {
+    const pricing = calculatePricing([{ price: 20000, quantity: 1 }], {
+      discount: -5000,
+    });
+
+    expect(pricing.discount).toBe(0);
+    expect(pricing.subtotal).toBe(20000);
+  });
+
+  it("adds delivery and insurance after tax", () => {
+    const pricing = calculatePricing([{ price: 100000, quantity: 1 }], {
+      deliveryFee: 15000,
+      insuranceFee: 2000,
+    });
+
+    expect(pricing.tax).toBe(11000);
+    expect(pricing.grandTotal).toBe(128000);
+  });
+
+  it("rounds tax to whole rupiah and reports the rounding", () => {
+    const pricing = calculatePricing([{ price: 12345, quantity: 1 }]);
+
+    expect(pricing.tax).toBe(1358);
+    expect(pricing.rounding).toBe(0.05);
+    expect(pricing.grandTotal).toBe(13703);
+  });
+
+  it("accepts a custom tax rate", () => {
+    const pricing = calculatePricing([{ price: 100000, quantity: 1 }], {
+      taxRate: 0.12,
+    });
+
+    expect(pricing.tax).toBe(12000);
+    expect(formatTaxRate(pricing.taxRate)).toBe("12%");
+  });
+});
+
+describe("getBookingTotals", () => {
+  it("uses the amounts the server charged", () => {
+    const booking = makeBooking({
+      quantity: 3,
+      sub_total_amount: 150000,
+      discount_amount: 10000,
+      total_tax_amount: 15401,
+      delivery_fee: 15000,
+      total_amount: 170401,
+      transaction_details: [makeDetail(1, 60000, 2), makeDetail(2, 30000, 1)],
+    });
+
+    expect(getBookingTotals(booking)).toMatchObject({
+      totalQuantity: 3,
+      subtotal: 150000,
+      discount: 10000,
+      taxableAmount: 140000,
+      tax: 15401,
+      deliveryFee: 15000,
+      grandTotal: 170401,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { BookingDetails, CartLine } from "../types/type";
+
+export const TAX_RATE = 0.11;
+
+export interface PricingLine {
+  price: number;
+  quantity: number;
+}
+
+export interface PricingOptions {
+  discount?: number;
+  taxRate?: number;
+  deliveryFee?: number;
+  insuranceFee?: number;
+}
+
+export interface PriceBreakdown {
+  totalQuantity: number;
+  subtotal: number;
+  discount: number;
+  taxableAmount: number;
+  taxRate: number;
+  tax: number;
+  deliveryFee: number;
+  insuranceFee: number;
+  rounding: number;
+  grandTotal: number;
+}
+
+export const toPricingLines = (lines: CartLine[]): PricingLine[] =>
+  lines.map((line) => ({
+    price: line.cosmetic.price,
+    quantity: line.quantity,
+  }));
+
+// Rupiah has no minor unit, so tax is rounded to whole rupiah and the
+// difference is reported as `rounding`.
+export const calculatePricing = (
+  lines: PricingLine[],
+  {
+    discount = 0,
+    taxRate = TAX_RATE,
+    deliveryFee = 0,
+    insuranceFee = 0,
+  }: PricingOptions = {}
+): PriceBreakdown => {
+  const totalQuantity = lines.reduce((acc, line) => acc + line.quantity, 0);
+  const subtotal = lines.reduce(
+    (acc, line) => acc + line.price * line.quantity,
+    0
+  );
+  const appliedDiscount = Math.min(Math.max(discount, 0), subtotal);
+  const taxableAmount = subtotal - appliedDiscount;
+  const exactTax = taxableAmount * taxRate;
+  const tax = Math.round(exactTax);
+
+  return {
+    totalQuantity,
+    subtotal,
+    discount: appliedDiscount,
+    taxableAmount,
+    taxRate,
+    tax,
+    deliveryFee,
+    insuranceFee,
+    rounding: Math.round((tax - exactTax) * 100) / 100,
+    grandTotal: taxableAmount + tax + deliveryFee + insuranceFee,
+  };
+};
+
+export const formatTaxRate = (taxRate: number) =>
+  `${Math.round(taxRate * 100)}%`;
+
+// Totals of a placed booking as the server charged them. These are what the
+// customer owes, so they are shown as-is rather than recalculated.
+export const getBookingTotals = (booking: BookingDetails): PriceBreakdown => {
+  const taxableAmount = booking.sub_total_amount - booking.discount_amount;
+  return {
+    totalQuantity: booking.quantity,
+    subtotal: booking.sub_total_amount,
+    discount: booking.discount_amount,
+    taxableAmount,
+    taxRate: TAX_RATE,
+    tax: booking.total_tax_amount,
+    deliveryFee: booking.delivery_fee,
+    insuranceFee: 0,
+    rounding: 0,
+    grandTotal: booking.total_amount,
+  };
+};
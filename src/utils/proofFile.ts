@@ -0,0 +1,81 @@
+export const ACCEPTED_PROOF_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+];
+
+export const MAX_PROOF_SIZE = 2 * 1024 * 1024;
+
+// Photos at or under both limits are uploaded untouched.
+const MAX_IMAGE_DIMENSION = 1600;
+const COMPRESS_ABOVE_SIZE = 500 * 1024;
+const JPEG_QUALITY = 0.8;
+
+export const isAcceptedProofType = (type: string) =>
+  ACCEPTED_PROOF_TYPES.includes(type);
+
+export const isPdf = (file: File) => file.type === "application/pdf";
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>((resolve) =>
+    canvas.toBlob((blob) => resolve(blob), type, quality)
+  );
+
+const renameToJpeg = (name: string) =>
+  `${name.replace(/\.[^./]+$/, "") || "proof"}.jpg`;
+
+// Downscales and re-encodes large photos as JPEG. Decoding with
+// `imageOrientation: "from-image"` applies the EXIF rotation, so portrait
+// phone photos are not uploaded sideways once the metadata is dropped.
+// Anything that cannot be decoded is returned as is and left to validation.
+export const prepareProofFile = async (file: File): Promise<File> => {
+  if (!file.type.startsWith("image/") || !isAcceptedProofType(file.type)) {
+    return file;
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    return file;
+  }
+
+  try {
+    const scale = Math.min(
+      1,
+      MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height)
+    );
+    if (scale === 1 && file.size <= COMPRESS_ABOVE_SIZE) {
+      return file;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return file;
+    }
+    // JPEG has no alpha channel; paint transparent PNG areas white, not black.
+    context.fillStyle = "#FFFFFF";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const blob = await toBlob(canvas, "image/jpeg", JPEG_QUALITY);
+    if (!blob || blob.size >= file.size) {
+      return file;
+    }
+    return new File([blob], renameToJpeg(file.name), {
+      type: "image/jpeg",
+      lastModified: file.lastModified,
+    });
+  } finally {
+    bitmap.close();
+  }
+};
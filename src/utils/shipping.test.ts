@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { fallbackShippingZone } from "../data/shippingRates";
+import { findShippingZone, quoteShipping } from "./shipping";
+
+describe("findShippingZone", () => {
+  it("matches a zone on the post code prefix", () => {
+    const { zone, matchedBy } = findShippingZone("40115", "Bandung");
+
+    expect(zone.id).toBe("java");
+    expect(matchedBy).toBe("post_code");
+  });
+
+  it("prefers the post code over the city", () => {
+    expect(findShippingZone("12950", "Surabaya").zone.id).toBe("jabodetabek");
+  });
+
+  it("keeps Gorontalo post codes in Sulawesi", () => {
+    expect(findShippingZone("96128", "Gorontalo").zone.id).toBe("sulawesi");
+    expect(findShippingZone("97114", "Ambon").zone.id).toBe("maluku-papua");
+  });
+
+  it("falls back to the city when the post code is not recognised", () => {
+    const { zone, matchedBy } = findShippingZone("1234", "Kota Medan");
+
+    expect(zone.id).toBe("sumatra");
+    expect(matchedBy).toBe("city");
+  });
+
+  it("uses the standard zone when nothing matches", () => {
+    const { zone, matchedBy } = findShippingZone("0000", "Atlantis");
+
+    expect(zone).toBe(fallbackShippingZone);
+    expect(zone.id).toBe("standard");
+    expect(matchedBy).toBe("fallback");
+  });
+});
+
+describe("quoteShipping", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("charges the base fee plus every started kilogram after the first", () => {
+    const quote = quoteShipping(
+      { post_code: "12950", city: "Jakarta", quantity: 5, orderValue: 100000 },
+      now
+    );
+
+    expect(quote.billableWeightKg).toBe(2);
+    expect(quote.fee).toBe(15000);
+    expect(quote.reason).toBe("rate");
+  });
+
+  it("ships for free from the zone threshold", () => {
+    const quote = quoteShipping(
+      { post_code: "12950", city: "Jakarta", quantity: 1, orderValue: 250000 },
+      now
+    );
+
+    expect(quote.fee).toBe(0);
+    expect(quote.reason).toBe("free_shipping");
+  });
+
+  it("never ships for free in zones without a threshold", () => {
+    const quote = quoteShipping(
+      {
+        post_code: "99111",
+        city: "Jayapura",
+        quantity: 1,
+        orderValue: 5000000,
+      },
+      now
+    );
+
+    expect(quote.fee).toBe(50000);
+    expect(quote.reason).toBe("rate");
+  });
+
+  it("applies a promo when it is cheaper than the rate", () => {
+    const quote = quoteShipping(
+      { post_code: "40115", city: "Bandung", quantity: 1, orderValue: 200000 },
+      now
+    );
+
+    expect(quote.standardFee).toBe(15000);
+    expect(quote.fee).toBe(10000);
+    expect(quote.reason).toBe("promo");
+    expect(quote.promo?.name).toBe("Java Hemat");
+  });
+
+  it("skips the promo below its minimum order", () => {
+    const quote = quoteShipping(
+      { post_code: "40115", city: "Bandung", quantity: 1, orderValue: 150000 },
+      now
+    );
+
+    expect(quote.fee).toBe(15000);
+    expect(quote.promo).toBeNull();
+  });
+
+  it("charges nothing for an empty order", () => {
+    const quote = quoteShipping(
+      { post_code: "40115", city: "Bandung", quantity: 0, orderValue: 0 },
+      now
+    );
+
+    expect(quote.fee).toBe(0);
+  });
+});
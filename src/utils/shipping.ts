@@ -0,0 +1,111 @@
+import {
+  DEFAULT_ITEM_WEIGHT_GRAMS,
+  fallbackShippingZone,
+  shippingPromos,
+  shippingZones,
+} from "../data/shippingRates";
+import { ShippingPromo, ShippingZone } from "../types/type";
+
+export type ShippingFeeReason = "rate" | "free_shipping" | "promo";
+
+export interface ShippingRequest {
+  post_code: string;
+  city: string;
+  quantity: number;
+  orderValue: number;
+  weightGrams?: number;
+}
+
+export interface ShippingQuote {
+  zone: ShippingZone;
+  matchedBy: "post_code" | "city" | "fallback";
+  weightGrams: number;
+  billableWeightKg: number;
+  standardFee: number;
+  fee: number;
+  reason: ShippingFeeReason;
+  promo: ShippingPromo | null;
+}
+
+const normalizeCity = (city: string) =>
+  city
+    .trim()
+    .toLowerCase()
+    .replace(/^(kota|kabupaten|kab\.)\s+/, "");
+
+export const findShippingZone = (
+  postCode: string,
+  city: string
+): Pick<ShippingQuote, "zone" | "matchedBy"> => {
+  if (/^\d{5}$/.test(postCode.trim())) {
+    const prefix = Number(postCode.trim().slice(0, 2));
+    const zone = shippingZones.find((candidate) =>
+      candidate.post_code_prefixes.some(
+        ([from, to]) => prefix >= from && prefix <= to
+      )
+    );
+    if (zone) {
+      return { zone, matchedBy: "post_code" };
+    }
+  }
+
+  const cityName = normalizeCity(city);
+  const zone = shippingZones.find((candidate) =>
+    candidate.cities.includes(cityName)
+  );
+  if (zone) {
+    return { zone, matchedBy: "city" };
+  }
+
+  return { zone: fallbackShippingZone, matchedBy: "fallback" };
+};
+
+const isPromoActive = (
+  promo: ShippingPromo,
+  zone: ShippingZone,
+  orderValue: number,
+  now: Date
+) =>
+  (promo.zone_ids.length === 0 || promo.zone_ids.includes(zone.id)) &&
+  orderValue >= promo.min_order &&
+  (!promo.starts_at || now.getTime() >= Date.parse(promo.starts_at)) &&
+  (!promo.expires_at || now.getTime() < Date.parse(promo.expires_at));
+
+export const quoteShipping = (
+  {
+    post_code,
+    city,
+    quantity,
+    orderValue,
+    weightGrams = quantity * DEFAULT_ITEM_WEIGHT_GRAMS,
+  }: ShippingRequest,
+  now = new Date()
+): ShippingQuote => {
+  const { zone, matchedBy } = findShippingZone(post_code, city);
+  const billableWeightKg = Math.max(1, Math.ceil(weightGrams / 1000));
+  const standardFee = zone.base_fee + (billableWeightKg - 1) * zone.per_kg_fee;
+
+  const quote = {
+    zone,
+    matchedBy,
+    weightGrams,
+    billableWeightKg,
+    standardFee,
+  };
+
+  if (quantity === 0) {
+    return { ...quote, fee: 0, reason: "rate", promo: null };
+  }
+  if (zone.free_shipping_min !== null && orderValue >= zone.free_shipping_min) {
+    return { ...quote, fee: 0, reason: "free_shipping", promo: null };
+  }
+
+  const bestPromo = shippingPromos
+    .filter((promo) => isPromoActive(promo, zone, orderValue, now))
+    .sort((a, b) => a.fee - b.fee)[0];
+  if (bestPromo && bestPromo.fee < standardFee) {
+    return { ...quote, fee: bestPromo.fee, reason: "promo", promo: bestPromo };
+  }
+
+  return { ...quote, fee: standardFee, reason: "rate", promo: null };
+};